@@ -0,0 +1,119 @@
+import type { AnyEventail } from "./Eventail";
+
+/**
+ * Phase of a bubbling emission the event is in.
+ *
+ * @public
+ */
+export enum EventPhase {
+  /** The event is not being emitted */
+  NONE = 0,
+  /** Capture listeners of the ancestors are called, from the root down */
+  CAPTURING = 1,
+  /** Listeners of the emitter that emitted the event are called */
+  AT_TARGET = 2,
+  /** Listeners of the ancestors are called, from the parent up */
+  BUBBLING = 3,
+}
+
+/**
+ * Event object that travels along the parent chain of an emitter.
+ *
+ * Passed as the first argument to `emitBubbling`. Listeners can read the
+ * emitter the event was emitted on and the emitter whose listeners are being
+ * called, and can call `stopPropagation()` to keep the event from reaching
+ * further emitters.
+ *
+ * @example
+ * ```typescript
+ * class Node extends Eventail {
+ *   public click(): void {
+ *     this.emitBubbling('click', new BubblingEvent());
+ *   }
+ * }
+ *
+ * scene.on('click', (event: BubblingEvent) => {
+ *   console.log('Clicked', event.target);
+ * });
+ * ```
+ *
+ * @public
+ */
+export class BubblingEvent {
+  /** The emitter the event was emitted on */
+  private targetEmitter?: AnyEventail;
+
+  /** The emitter whose listeners are being called */
+  private currentEmitter?: AnyEventail;
+
+  /** The current phase of the emission */
+  private phase = EventPhase.NONE;
+
+  /** Whether a listener has stopped propagation */
+  private stopped = false;
+
+  /**
+   * The emitter the event was emitted on.
+   *
+   * @public
+   */
+  public get target(): AnyEventail | undefined {
+    return this.targetEmitter;
+  }
+
+  /**
+   * The emitter whose listeners are being called, or `undefined` outside of emission.
+   *
+   * @public
+   */
+  public get currentTarget(): AnyEventail | undefined {
+    return this.currentEmitter;
+  }
+
+  /**
+   * The current phase of the emission.
+   *
+   * @public
+   */
+  public get eventPhase(): EventPhase {
+    return this.phase;
+  }
+
+  /**
+   * Whether a listener has stopped propagation.
+   *
+   * @public
+   */
+  public get propagationStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * Keeps the event from reaching further emitters. The remaining listeners
+   * of the current emitter are still called.
+   *
+   * @public
+   */
+  public stopPropagation(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Moves the event to the next step of a bubbling emission.
+   *
+   * @param phase - The phase the emission is entering
+   * @param target - The emitter the event was emitted on
+   * @param currentTarget - The emitter whose listeners are about to be called
+   *
+   * @internal
+   */
+  public enterPhase(
+    phase: EventPhase,
+    target?: AnyEventail,
+    currentTarget?: AnyEventail,
+  ): void {
+    this.phase = phase;
+    this.targetEmitter = target;
+    this.currentEmitter = currentTarget;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Event object that lets listeners veto the action announced by an event.
+ *
+ * Passed as the first argument to `emitCancelable`. Any listener can call
+ * `preventDefault()` to block the default action of the emitter.
+ *
+ * @example
+ * ```typescript
+ * class Window extends Eventail {
+ *   public close(): void {
+ *     if (this.emitCancelable('beforeClose', new CancelableEvent())) {
+ *       this.dispose();
+ *     }
+ *   }
+ * }
+ *
+ * window.on('beforeClose', (event: CancelableEvent) => {
+ *   if (hasUnsavedChanges) {
+ *     event.preventDefault();
+ *   }
+ * });
+ * ```
+ *
+ * @public
+ */
+export class CancelableEvent {
+  /** Whether emission stops at the first listener that vetoes the event */
+  public readonly stopOnVeto: boolean;
+
+  /** Whether a listener has vetoed the event */
+  private prevented = false;
+
+  /**
+   * Creates a new CancelableEvent instance.
+   *
+   * @param stopOnVeto - Whether to skip the remaining listeners once the event is vetoed (default: false)
+   *
+   * @public
+   */
+  constructor(stopOnVeto = false) {
+    this.stopOnVeto = stopOnVeto;
+  }
+
+  /**
+   * Whether a listener has vetoed the event.
+   *
+   * @public
+   */
+  public get defaultPrevented(): boolean {
+    return this.prevented;
+  }
+
+  /**
+   * Vetoes the event, blocking the default action of the emitter.
+   *
+   * @public
+   */
+  public preventDefault(): void {
+    this.prevented = true;
+  }
+}
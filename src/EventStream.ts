@@ -0,0 +1,234 @@
+/**
+ * Defines what an `EventStream` does when an emission arrives while its buffer is full.
+ *
+ * @public
+ */
+export enum OverflowPolicy {
+  /** Discard the oldest buffered emission to make room for the new one */
+  DROP_OLDEST = 0,
+  /** Discard the new emission */
+  DROP_NEWEST = 1,
+  /** End the stream with an error once the buffered emissions are consumed */
+  THROW = 2,
+}
+
+/**
+ * Options for an `EventStream`.
+ *
+ * @public
+ */
+export interface EventStreamOptions {
+  /** Maximum number of emissions buffered between pulls (default: unbounded) */
+  bufferSize?: number;
+
+  /** What to do when the buffer is full (default: `OverflowPolicy.DROP_OLDEST`) */
+  overflow?: OverflowPolicy;
+
+  /** AbortSignal that ends the stream and removes its listener */
+  signal?: AbortSignal;
+}
+
+/**
+ * Async iterator over the emissions of one event type, created by `Eventail.events`.
+ *
+ * Each emission yields the tuple of its arguments. Emissions arriving between
+ * pulls are buffered. The listener is removed when the loop exits, when
+ * `return()` is called or when the signal is aborted. The stream also ends,
+ * after its buffered emissions, when the emitter is destroyed.
+ *
+ * @example
+ * ```ts
+ * for await (const [health] of player.events('healthChanged')) {
+ *   if (health <= 0) {
+ *     break; // Removes the listener
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class EventStream<
+  Args extends unknown[],
+> implements AsyncIterableIterator<Args, undefined> {
+  /** Emissions received but not pulled yet */
+  private readonly buffer: Args[] = [];
+  /** Resolvers of `next()` calls waiting for an emission */
+  private readonly pulls: ((
+    result: IteratorResult<Args, undefined>,
+  ) => void)[] = [];
+  /** Maximum number of buffered emissions */
+  private readonly bufferSize: number;
+  /** What to do when the buffer is full */
+  private readonly overflow: OverflowPolicy;
+  /** AbortSignal that ends the stream */
+  private readonly signal?: AbortSignal;
+  /** Removes the listener from the emitter, unset once the stream has ended */
+  private unsubscribe?: () => void;
+  /** Error the stream ended with, delivered after the buffered emissions */
+  private error?: unknown;
+  /** Whether the stream ended with an error */
+  private hasError = false;
+
+  /**
+   * Creates a new EventStream instance.
+   *
+   * @param subscribe - Registers the listener feeding the stream and returns a function removing it,
+   * or `undefined` if no listener could be registered. Also receives a function ending the stream
+   * @param options - Buffering and abort options
+   *
+   * @throws RangeError when `bufferSize` is negative or not an integer
+   *
+   * @internal
+   */
+  constructor(
+    subscribe: (
+      push: (...args: Args) => void,
+      end: () => void,
+    ) => (() => void) | undefined,
+    options: EventStreamOptions = {},
+  ) {
+    const bufferSize = options.bufferSize ?? Infinity;
+    if (
+      bufferSize < 0 ||
+      (bufferSize !== Infinity && !Number.isInteger(bufferSize))
+    ) {
+      throw new RangeError(
+        "Event stream buffer size must be a non-negative integer",
+      );
+    }
+
+    this.bufferSize = bufferSize;
+    this.overflow = options.overflow ?? OverflowPolicy.DROP_OLDEST;
+    this.signal = options.signal;
+
+    if (this.signal?.aborted === true) {
+      return;
+    }
+
+    // A stream without a listener has ended right away
+    this.unsubscribe = subscribe(this.push, this.close);
+    if (this.unsubscribe !== undefined) {
+      this.signal?.addEventListener("abort", this.close, { once: true });
+    }
+  }
+
+  /**
+   * Returns the stream itself, so it can be used in `for await` loops.
+   *
+   * @public
+   */
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Resolves with the next emission, waiting for one if the buffer is empty.
+   *
+   * @returns Promise resolving to the next emission, or to a done result once the stream has ended
+   *
+   * @throws Error when the buffer overflowed under `OverflowPolicy.THROW`
+   *
+   * @public
+   */
+  public next(): Promise<IteratorResult<Args, undefined>> {
+    const args = this.buffer.shift();
+    if (args !== undefined) {
+      return Promise.resolve({ done: false, value: args });
+    }
+
+    if (this.hasError) {
+      this.hasError = false;
+      const error = this.error;
+      this.error = undefined;
+      return Promise.reject(error);
+    }
+
+    if (this.unsubscribe === undefined) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+
+    // Pulls only wait while the buffer is empty, so an overflow never happens
+    // while one is pending and they are always settled by `push` or `end`
+    return new Promise((resolve) => {
+      this.pulls.push(resolve);
+    });
+  }
+
+  /**
+   * Ends the stream, removes its listener and discards buffered emissions.
+   * Called automatically when a `for await` loop exits early.
+   *
+   * @returns Promise resolving to a done result
+   *
+   * @public
+   */
+  public return(): Promise<IteratorResult<Args, undefined>> {
+    this.buffer.length = 0;
+    this.hasError = false;
+    this.error = undefined;
+    this.end();
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  /**
+   * Receives an emission from the emitter.
+   *
+   * @param args - Arguments of the emission
+   */
+  private readonly push = (...args: Args): void => {
+    const pull = this.pulls.shift();
+    if (pull !== undefined) {
+      pull({ done: false, value: args });
+      return;
+    }
+
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(args);
+      return;
+    }
+
+    switch (this.overflow) {
+      case OverflowPolicy.DROP_OLDEST:
+        if (this.bufferSize > 0) {
+          this.buffer.shift();
+          this.buffer.push(args);
+        }
+        return;
+
+      case OverflowPolicy.DROP_NEWEST:
+        return;
+
+      case OverflowPolicy.THROW:
+        this.hasError = true;
+        this.error = new Error(
+          `Event stream buffer overflow (buffer size: ${this.bufferSize})`,
+        );
+        this.end();
+        return;
+    }
+  };
+
+  /** Ends the stream when the signal is aborted or the emitter is destroyed. */
+  private readonly close = (): void => {
+    this.end();
+  };
+
+  /**
+   * Removes the listener and settles pending pulls as done.
+   */
+  private end(): void {
+    const unsubscribe = this.unsubscribe;
+    if (unsubscribe === undefined) {
+      return;
+    }
+
+    this.unsubscribe = undefined;
+    this.signal?.removeEventListener("abort", this.close);
+    unsubscribe();
+
+    const pulls = this.pulls.splice(0);
+    for (let i = 0; i < pulls.length; i++) {
+      pulls[i]({ done: true, value: undefined });
+    }
+  }
+}
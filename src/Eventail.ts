@@ -1,4 +1,8 @@
+import { BubblingEvent, EventPhase } from "./BubblingEvent";
+import { CancelableEvent } from "./CancelableEvent";
+import { EventStream, type EventStreamOptions } from "./EventStream";
 import { ListenerIndex } from "./ListenerIndex";
+import { Subscription } from "./Subscription";
 
 /**
  * Represents a callback function that can be invoked with any number of arguments.
@@ -8,6 +12,336 @@ import { ListenerIndex } from "./ListenerIndex";
 /* eslint-disable @typescript-eslint/no-explicit-any -- Using any here for generic condition function arguments */
 export type Callback = (...args: any[]) => any;
 
+/**
+ * Maps event types to the tuple of arguments their listeners receive.
+ *
+ * @example
+ * ```typescript
+ * interface PlayerEvents {
+ *   healthChanged: [health: number];
+ *   died: [];
+ * }
+ * ```
+ *
+ * @public
+ */
+export type EventMap<Events> = { [K in keyof Events]: unknown[] };
+
+/**
+ * Event map used when no explicit map is provided: any string or number
+ * event type with any arguments.
+ *
+ * @public
+ */
+export type UntypedEventMap = Record<string | number, any[]>;
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+/**
+ * Event types declared by an event map.
+ *
+ * @public
+ */
+export type EventType<Events> = Extract<keyof Events, string | number>;
+
+/**
+ * Listener callback for the event type `K` of an event map.
+ *
+ * @public
+ */
+export type EventCallback<
+  Events extends EventMap<Events>,
+  K extends EventType<Events>,
+> = (...args: Events[K]) => unknown;
+
+/**
+ * An emitter with any event map, such as the parent of an emitter in the
+ * chain bubbling events travel along.
+ *
+ * @public
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Emitters in a chain may use different event maps
+export type AnyEventail = Eventail<any>;
+
+/**
+ * Catch-all listener callback, receiving the event type followed by the
+ * arguments of that event.
+ *
+ * @public
+ */
+export type AnyEventCallback<Events extends EventMap<Events>> = (
+  ...args: {
+    [K in EventType<Events>]: [type: K, ...args: Events[K]];
+  }[EventType<Events>]
+) => unknown;
+
+/**
+ * Value a listener can return to stop propagation of the current emission.
+ * Listeners with lower priority are not called for that emission.
+ *
+ * @example
+ * ```typescript
+ * input.on('click', () => {
+ *   if (overlay.isOpen) {
+ *     return STOP_PROPAGATION;
+ *   }
+ * }, undefined, -10);
+ * ```
+ *
+ * @public
+ */
+export const STOP_PROPAGATION: unique symbol = Symbol("STOP_PROPAGATION");
+
+/**
+ * Options for a listener registered with `listen`.
+ *
+ * @public
+ */
+export interface ListenerOptions<Args extends unknown[] = unknown[]> {
+  /** Optional this context object for the callback and filter */
+  context?: object;
+
+  /** Priority value (lower = higher priority, default: 0) */
+  priority?: number;
+
+  /** Whether the listener is removed after its first execution */
+  once?: boolean;
+
+  /** Number of executions after which the listener is removed; takes precedence over `once` */
+  times?: number;
+
+  /** AbortSignal that removes the listener when aborted */
+  signal?: AbortSignal;
+
+  /**
+   * Predicate evaluated against the emitted arguments before the callback runs.
+   * The callback is skipped, and does not count towards `once` or `times`,
+   * when it returns `false`.
+   */
+  filter?: (...args: Args) => boolean;
+
+  /** What happens if the callback and context are already registered; overrides the emitter's policy */
+  duplicate?: DuplicatePolicy;
+
+  /**
+   * Whether the listener holds its context weakly; overrides the emitter's
+   * `weakContexts`. Ignored for listeners without a context.
+   */
+  weak?: boolean;
+
+  /**
+   * Whether the listener is called right away with the emissions kept in the
+   * replay buffer of the event type, oldest first.
+   */
+  replay?: boolean;
+}
+
+/**
+ * Options for `waitFor`.
+ *
+ * @public
+ */
+export interface WaitForOptions<Args extends unknown[] = unknown[]> {
+  /** Time in milliseconds after which the promise is rejected */
+  timeout?: number;
+
+  /** Predicate the emitted arguments must pass to resolve the promise */
+  filter?: (...args: Args) => boolean;
+
+  /** AbortSignal that rejects the promise with its reason when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Value returned by a listener, as collected by `emitCollect`.
+ *
+ * @public
+ */
+export interface CollectedValue {
+  /** The value returned by the listener */
+  value: unknown;
+
+  /** Priority of the listener that returned the value */
+  priority: number;
+}
+
+/**
+ * Settled result of a listener started by `emitParallel`, identifying the listener.
+ *
+ * @public
+ */
+export type ParallelResult = PromiseSettledResult<unknown> & {
+  /** The callback of the listener */
+  callback: Callback;
+
+  /** Priority of the listener */
+  priority: number;
+};
+
+/**
+ * Defines what happens when a listener throws during emission.
+ *
+ * @public
+ */
+export enum ErrorPolicy {
+  /** Rethrow the error immediately, skipping the remaining listeners */
+  RETHROW = 0,
+  /** Call the remaining listeners, then throw an `AggregateError` with all errors */
+  AGGREGATE = 1,
+  /** Call the remaining listeners and pass each error to `onError` or the `error` event */
+  ROUTE = 2,
+}
+
+/**
+ * Defines what happens when a destroyed emitter is used.
+ *
+ * @public
+ */
+export enum DestroyPolicy {
+  /** Adding listeners and emitting events do nothing */
+  IGNORE = 0,
+  /** Adding listeners and emitting events throw an error */
+  THROW = 1,
+}
+
+/**
+ * Defines what happens when a listener is added with a callback and context
+ * that are already registered for the event type.
+ *
+ * @public
+ */
+export enum DuplicatePolicy {
+  /** Throw an error */
+  THROW = 0,
+  /** Keep the existing listener and ignore the new one */
+  IGNORE = 1,
+  /** Remove the existing listener and add the new one with its settings */
+  REPLACE = 2,
+  /**
+   * Keep the existing listener and count the registration. The listener is
+   * removed once `off` has been called as many times as it was added; the
+   * options of later registrations are ignored
+   */
+  COUNT = 3,
+}
+
+/**
+ * Configuration of the replay buffer of an event type.
+ *
+ * @public
+ */
+export interface ReplayBufferOptions {
+  /** The event type whose emissions are kept */
+  type: string | number;
+
+  /** Maximum number of emissions kept; older ones are dropped */
+  size: number;
+
+  /** Maximum age of a kept emission in milliseconds (default: no limit) */
+  maxAge?: number;
+}
+
+/**
+ * Options for an `Eventail` instance.
+ *
+ * @public
+ */
+export interface EventailOptions {
+  /** How errors thrown by listeners are handled (default: `ErrorPolicy.RETHROW`) */
+  errorPolicy?: ErrorPolicy;
+
+  /**
+   * Receives listener errors under `ErrorPolicy.ROUTE`.
+   * When omitted, errors are emitted as the `error` event instead.
+   */
+  onError?: (error: unknown, type: string | number) => void;
+
+  /** What happens when a destroyed emitter is used (default: `DestroyPolicy.IGNORE`) */
+  destroyPolicy?: DestroyPolicy;
+
+  /** What happens when a listener is added twice (default: `DuplicatePolicy.THROW`) */
+  duplicatePolicy?: DuplicatePolicy;
+
+  /**
+   * Whether listeners hold their contexts weakly (default: `false`).
+   * A weak listener is skipped and removed once its context is garbage collected.
+   */
+  weakContexts?: boolean;
+
+  /**
+   * Event types whose last emitted arguments are delivered to listeners added
+   * later with `on`, `once`, `listen`, `subscribe` or `subscribeOnce`, to
+   * `waitFor` and to `events` streams.
+   */
+  stickyEvents?: readonly (string | number)[];
+
+  /**
+   * Event types whose recent emissions are kept, to be delivered to listeners
+   * added with the `replay` option.
+   */
+  replayBuffers?: readonly ReplayBufferOptions[];
+}
+
+/**
+ * Event type used to route listener errors under `ErrorPolicy.ROUTE`
+ * when no `onError` handler is configured. Its listeners receive the error
+ * and the type of the event whose listener threw.
+ *
+ * @public
+ */
+export const ERROR_EVENT = "error";
+
+/**
+ * Outcome of delivering an event to its listeners.
+ *
+ * @internal
+ */
+enum DispatchResult {
+  /** The event type had no listeners */
+  NO_LISTENERS = 0,
+  /** All listeners in the snapshot were called */
+  DELIVERED = 1,
+  /** A listener stopped propagation */
+  CONSUMED = 2,
+}
+
+/**
+ * Key under which catch-all listeners are stored in the listener map.
+ * Being a symbol, it cannot collide with any event type.
+ *
+ * @internal
+ */
+const ANY_EVENT: unique symbol = Symbol("ANY_EVENT");
+
+/**
+ * Key of the listener map: an event type, `ANY_EVENT` or the key of a pattern.
+ *
+ * @internal
+ */
+type ListenerKey = string | number | symbol;
+
+/**
+ * Converts a dot-separated event pattern into a regular expression.
+ * A `*` segment matches exactly one segment, a `**` segment matches one or
+ * more segments, and any other segment matches itself literally.
+ *
+ * @param pattern - The pattern to convert, e.g. `player.*`
+ * @returns Regular expression matching the whole event type
+ *
+ * @internal
+ */
+function compilePattern(pattern: string): RegExp {
+  const segments = pattern.split(".").map((segment) => {
+    if (segment === "**") {
+      return "[^.]+(?:\\.[^.]+)*";
+    }
+    if (segment === "*") {
+      return "[^.]+";
+    }
+    return segment.replace(/[\\^$.*+?()[\]{}|]/g, "\\$&");
+  });
+  return new RegExp(`^${segments.join("\\.")}$`);
+}
+
 /**
  * Interface representing an event listener configuration.
  *
@@ -25,14 +359,32 @@ interface Listener {
   /** Optional context object or Symbol for the callback execution */
   _context?: object;
 
+  /** Weak reference to the context of a weak listener, whose `_context` is left empty */
+  _contextRef?: WeakRef<object>;
+
   /** Priority of the event listener. Lower values indicate higher priority */
   _priority: number;
 
-  /** Whether the listener should be automatically removed after first execution */
-  _once: boolean;
+  /**
+   * Whether calls must be claimed with `claimCall`: the listener is limited,
+   * filtered, weak or used up. Plain listeners skip the check
+   */
+  _isGuarded: boolean;
+
+  /** Number of executions left before a limited listener is removed, or 0 for no limit */
+  _remaining: number;
 
-  /** Whether the listener has been called at least once */
+  /** Whether a limited listener has used up all of its executions */
   _called: boolean;
+
+  /** Number of registrations counted under `DuplicatePolicy.COUNT` */
+  _references: number;
+
+  /** Optional predicate that must accept the emitted arguments for the callback to run */
+  _filter?: Callback;
+
+  /** Detaches the abort handler from the signal the listener was registered with */
+  _unbindSignal?: Callback;
 }
 
 /**
@@ -57,6 +409,87 @@ interface ListenerData {
   _index: ListenerIndex;
 }
 
+/**
+ * Resolves the context a listener is called with.
+ *
+ * @param listener - The listener to resolve the context of
+ * @returns The context, or `undefined` if there is none or a weak context has been collected
+ *
+ * @internal
+ */
+function getListenerContext(listener: Listener): object | undefined {
+  return listener._contextRef === undefined
+    ? listener._context
+    : listener._contextRef.deref();
+}
+
+/**
+ * Checks if a listener was registered with a callback and context.
+ * A weak listener whose context has been collected matches nothing.
+ *
+ * @param listener - The listener to check
+ * @param callback - The callback to match
+ * @param context - The context to match
+ * @returns `true` if the listener matches
+ *
+ * @internal
+ */
+function isListenerOf(
+  listener: Listener,
+  callback: Callback,
+  context: object | undefined,
+): boolean {
+  if (listener._callback !== callback) {
+    return false;
+  }
+  return listener._contextRef === undefined
+    ? listener._context === context
+    : context !== undefined && listener._contextRef.deref() === context;
+}
+
+/**
+ * Internal structure describing a registered event pattern.
+ * Its listeners are stored in the listener map under `_key`.
+ *
+ * @internal
+ *
+ * Note:
+ * Underscore-prefixed fields are used intentionally to mark internal runtime properties.
+ * This violates the usual naming convention to keep public API clean,
+ * but here the underscore hints the bundler/minifier (like Terser) which properties can be mangled safely.
+ */
+interface PatternData {
+  /** Regular expression the event type must match */
+  _matcher: RegExp;
+
+  /** Key of the pattern listeners in the listener map */
+  _key: symbol;
+}
+
+/**
+ * Internal structure holding the recent emissions of an event type.
+ *
+ * @internal
+ *
+ * Note:
+ * Underscore-prefixed fields are used intentionally to mark internal runtime properties.
+ * This violates the usual naming convention to keep public API clean,
+ * but here the underscore hints the bundler/minifier (like Terser) which properties can be mangled safely.
+ */
+interface ReplayBuffer {
+  /** Maximum number of emissions kept */
+  _size: number;
+
+  /** Maximum age of a kept emission in milliseconds */
+  _maxAge: number;
+
+  /** Arguments of the kept emissions, oldest first */
+  _args: unknown[][];
+
+  /** Times of the kept emissions, as returned by `Date.now()` */
+  _times: number[];
+}
+
 /**
  * Abstract base class for priority-based event emitters.
  *
@@ -64,6 +497,10 @@ interface ListenerData {
  * Must be extended by concrete implementations. Only the extending class can emit events
  * internally using the protected `emit` method.
  *
+ * An optional event map type parameter enables type checking of event types,
+ * listener parameters and emitted arguments. Without it any string or number
+ * event type is accepted with any arguments.
+ *
  * @example
  * ```typescript
  * class GameObject extends Eventail {
@@ -82,84 +519,2146 @@ interface ListenerData {
  * const gameObject = new GameObject();
  * gameObject.on('healthChanged', (health) => console.log('Health:', health));
  * gameObject.on('died', () => console.log('Game Over'));
+ *
+ * // With an event map
+ * class Player extends Eventail<{ healthChanged: [health: number]; died: [] }> {}
  * ```
  *
  * @public
  */
-export abstract class Eventail {
+export abstract class Eventail<
+  Events extends EventMap<Events> = UntypedEventMap,
+> {
   /** Map storing event listeners for each event type */
-  private readonly listeners = new Map<string | number, ListenerData>();
+  private readonly listeners = new Map<ListenerKey, ListenerData>();
+
+  /** Registered event patterns, by the pattern they were registered with */
+  private readonly patterns = new Map<string | RegExp, PatternData>();
+
+  /** Keys of the capture listeners in the listener map, by event type */
+  private readonly captureKeys = new Map<string | number, symbol>();
+
+  /** Keys of the listener lists each context has listeners in */
+  private readonly contextKeys = new WeakMap<object, Set<ListenerKey>>();
+
+  /** Emitter that bubbling events propagate to after this one */
+  private parentEmitter?: AnyEventail;
+
+  /** What happens when a destroyed emitter is used */
+  private readonly destroyPolicy: DestroyPolicy;
+
+  /** What happens when a listener is added twice */
+  private readonly duplicatePolicy: DuplicatePolicy;
+
+  /** Whether listeners hold their contexts weakly by default */
+  private readonly weakContexts: boolean;
+
+  /** Removes weak listeners once their context is collected, created on first use */
+  private weakRegistry?: FinalizationRegistry<[ListenerKey, Listener]>;
+
+  /** Event types whose last emission is replayed to new listeners */
+  private readonly stickyTypes: ReadonlySet<string | number>;
+
+  /** Last arguments emitted for each sticky event type */
+  private readonly stickyArgs = new Map<string | number, unknown[]>();
+
+  /** Recent emissions of the event types with a replay buffer */
+  private readonly replayBuffers = new Map<string | number, ReplayBuffer>();
+
+  /** Whether `destroy` has been called */
+  private isDestroyed = false;
+
+  /** Settle pending `waitFor` promises and end event streams when the emitter is destroyed */
+  private readonly destroyHandlers = new Set<() => void>();
+
+  /** How errors thrown by listeners are handled */
+  private readonly errorPolicy: ErrorPolicy;
+
+  /** Receives listener errors under `ErrorPolicy.ROUTE` */
+  private readonly errorHandler?: (
+    error: unknown,
+    type: string | number,
+  ) => void;
 
   /**
-   * Adds an event listener for the specified event type.
+   * Creates a new Eventail instance.
    *
-   * Listeners are executed in priority order (lower values first).
-   * Listeners with the same priority may execute in any order.
+   * @param options - Optional emitter configuration
    *
-   * @param type - The event type (string or number) to listen for
-   * @param callback - The function to be called when the event is emitted
-   * @param context - Optional this context object for the callback
-   * @param priority - Optional priority value (lower = higher priority, default: 0)
-   * @returns The emitter instance for chaining
+   * @throws RangeError when a replay buffer `size` is not a positive integer or its `maxAge` is not positive
    *
    * @public
    */
-  public on(
-    type: string | number,
-    callback: Callback,
-    context?: object,
-    priority = 0,
-  ): this {
-    this.addListener(type, false, priority, callback, context);
-    return this;
+  constructor(options: EventailOptions = {}) {
+    this.errorPolicy = options.errorPolicy ?? ErrorPolicy.RETHROW;
+    this.errorHandler = options.onError;
+    this.destroyPolicy = options.destroyPolicy ?? DestroyPolicy.IGNORE;
+    this.duplicatePolicy = options.duplicatePolicy ?? DuplicatePolicy.THROW;
+    this.weakContexts = options.weakContexts ?? false;
+    this.stickyTypes = new Set(options.stickyEvents);
+
+    const replayBuffers = options.replayBuffers ?? [];
+    for (let i = 0; i < replayBuffers.length; i++) {
+      const { type, size, maxAge = Infinity } = replayBuffers[i];
+      if (!Number.isInteger(size) || size <= 0) {
+        throw new RangeError("Replay buffer size must be a positive integer");
+      }
+      if (!(maxAge > 0)) {
+        throw new RangeError("Replay buffer maxAge must be a positive number");
+      }
+      this.replayBuffers.set(type, {
+        _size: size,
+        _maxAge: maxAge,
+        _args: [],
+        _times: [],
+      });
+    }
+  }
+
+  /**
+   * Whether the emitter has been destroyed with `destroy`.
+   *
+   * @public
+   */
+  public get destroyed(): boolean {
+    return this.isDestroyed;
+  }
+
+  /**
+   * The emitter that bubbling events propagate to after this one.
+   *
+   * @public
+   */
+  public get eventParent(): AnyEventail | undefined {
+    return this.parentEmitter;
+  }
+
+  /**
+   * Sets the emitter that bubbling events propagate to after this one.
+   *
+   * @param parent - The parent emitter, or `undefined` to detach from the current one
+   * @returns The emitter instance for chaining
+   *
+   * @throws Error when the parent is this emitter or one of its descendants
+   *
+   * @public
+   */
+  public setEventParent(parent: AnyEventail | undefined): this {
+    for (
+      let ancestor = parent;
+      ancestor !== undefined;
+      ancestor = ancestor.parentEmitter
+    ) {
+      if (ancestor === this) {
+        throw new Error("Event parent would create a cycle");
+      }
+    }
+
+    this.parentEmitter = parent;
+    return this;
+  }
+
+  /**
+   * Adds an event listener for the specified event type.
+   *
+   * Listeners are executed in priority order (lower values first).
+   * Listeners with the same priority may execute in any order.
+   * Aborting the signal removes the listener; an already aborted signal adds nothing.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The function to be called when the event is emitted
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @param signal - Optional AbortSignal that removes the listener when aborted
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public on<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    context?: object,
+    priority = 0,
+    signal?: AbortSignal,
+  ): this {
+    const listener = this.addListener(
+      type,
+      0,
+      priority,
+      callback,
+      context,
+      signal,
+    );
+    this.replayEmissions(type, listener, false);
+    return this;
+  }
+
+  /**
+   * Adds a one-time event listener that removes itself after first execution.
+   *
+   * Listeners are executed in priority order (lower values first).
+   * Listeners with the same priority may execute in any order.
+   * Aborting the signal removes the listener; an already aborted signal adds nothing.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The function to be called when the event is emitted
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @param signal - Optional AbortSignal that removes the listener when aborted
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public once<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    context?: object,
+    priority = 0,
+    signal?: AbortSignal,
+  ): this {
+    const listener = this.addListener(
+      type,
+      1,
+      priority,
+      callback,
+      context,
+      signal,
+    );
+    this.replayEmissions(type, listener, false);
+    return this;
+  }
+
+  /**
+   * Adds an event listener configured by an options object.
+   *
+   * Works like `on`, or like `once` with the `once` option, with all listener
+   * settings expressed in one object instead of positional arguments.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The function to be called when the event is emitted
+   * @param options - Listener options, see `ListenerOptions`
+   * @returns The emitter instance for chaining
+   *
+   * @throws RangeError when `times` is not a positive integer
+   *
+   * @public
+   */
+  public listen<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    options: ListenerOptions<Events[K]> = {},
+  ): this {
+    const listener = this.addListenerWithOptions(type, callback, options);
+    this.replayEmissions(type, listener, options.replay === true);
+    return this;
+  }
+
+  /**
+   * Adds an event listener and returns a handle that removes it.
+   *
+   * Works like `on`, but instead of the emitter returns a `Subscription`
+   * whose `unsubscribe()` or `[Symbol.dispose]()` removes the listener,
+   * so the callback and context do not have to be kept around for `off`.
+   * The handle only removes the listener it added: once that listener is gone,
+   * unsubscribing has no effect, even if the callback was added again. If no
+   * listener was added, for example under `DuplicatePolicy.IGNORE`, the
+   * returned handle is already inactive.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The function to be called when the event is emitted
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @returns Subscription handle for the added listener
+   *
+   * @public
+   */
+  public subscribe<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    context?: object,
+    priority = 0,
+  ): Subscription {
+    const listener = this.addListener(type, 0, priority, callback, context);
+    this.replayEmissions(type, listener, false);
+    return this.createSubscription(type, listener, callback, context);
+  }
+
+  /**
+   * Adds a one-time event listener and returns a handle that removes it.
+   *
+   * Works like `once`, see `subscribe`. Unsubscribing after the listener has
+   * been called has no effect.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The function to be called when the event is emitted
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @returns Subscription handle for the added listener
+   *
+   * @public
+   */
+  public subscribeOnce<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    context?: object,
+    priority = 0,
+  ): Subscription {
+    const listener = this.addListener(type, 1, priority, callback, context);
+    this.replayEmissions(type, listener, false);
+    return this.createSubscription(type, listener, callback, context);
+  }
+
+  /**
+   * Waits for the next emission of an event.
+   *
+   * Registers a temporary one-time listener that is removed when the promise
+   * settles, whether it resolves, times out, is aborted or the emitter is destroyed.
+   * For a sticky event type, a last emission passing the filter resolves the
+   * promise right away.
+   *
+   * @example
+   * ```typescript
+   * const [level] = await player.waitFor('leveledUp', {
+   *   timeout: 5000,
+   *   filter: (level) => level >= 10,
+   * });
+   * ```
+   *
+   * @param type - The event type (string or number) to wait for
+   * @param options - Optional timeout, filter and abort signal
+   * @returns Promise resolving to the arguments of the first matching emission
+   *
+   * @throws Error when the timeout elapses before a matching emission
+   * @throws The signal's reason when the signal is aborted
+   * @throws Error when the emitter is or gets destroyed
+   *
+   * @public
+   */
+  public waitFor<K extends EventType<Events>>(
+    type: K,
+    options: WaitForOptions<Events[K]> = {},
+  ): Promise<Events[K]> {
+    return new Promise<Events[K]>((resolve, reject) => {
+      const signal = options.signal;
+      if (signal?.aborted === true) {
+        reject(signal.reason);
+        return;
+      }
+      if (this.isDestroyed) {
+        reject(new Error("Emitter has been destroyed"));
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.destroyHandlers.delete(onDestroy);
+        this.removeListener(type, callback);
+      };
+
+      const callback = (...args: Events[K]): void => {
+        cleanup();
+        resolve(args);
+      };
+
+      const onAbort = (): void => {
+        cleanup();
+        reject(signal?.reason);
+      };
+
+      const onDestroy = (): void => {
+        cleanup();
+        reject(new Error("Emitter has been destroyed"));
+      };
+
+      if (options.timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(
+            new Error(
+              `Timed out after ${options.timeout}ms waiting for event "${type}"`,
+            ),
+          );
+        }, options.timeout);
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.destroyHandlers.add(onDestroy);
+
+      // Added last, as the last emission of a sticky type settles the promise right away
+      const listener = this.addListener(
+        type,
+        1,
+        0,
+        callback,
+        undefined,
+        undefined,
+        options.filter,
+      );
+      this.replayEmissions(type, listener, false);
+    });
+  }
+
+  /**
+   * Returns an async iterator over the emissions of an event type.
+   *
+   * The iterator registers a listener right away and buffers emissions until
+   * they are pulled. The listener is removed when the loop exits or the
+   * signal is aborted. Destroying the emitter ends the iterator once the
+   * buffered emissions are pulled; on a destroyed emitter it is done right away.
+   * For a sticky event type, the last emission is the first one yielded.
+   *
+   * @example
+   * ```typescript
+   * for await (const [health] of player.events('healthChanged', { bufferSize: 10 })) {
+   *   console.log('Health:', health);
+   * }
+   * ```
+   *
+   * @param type - The event type (string or number) to iterate over
+   * @param options - Optional buffer size, overflow policy and abort signal
+   * @returns Async iterator yielding the arguments of each emission
+   *
+   * @public
+   */
+  public events<K extends EventType<Events>>(
+    type: K,
+    options?: EventStreamOptions,
+  ): EventStream<Events[K]> {
+    return new EventStream<Events[K]>((push, end) => {
+      const listener = this.addListener(type, 0, 0, push);
+      if (listener === undefined) {
+        return undefined;
+      }
+
+      this.replayEmissions(type, listener, false);
+      this.destroyHandlers.add(end);
+      return (): void => {
+        this.destroyHandlers.delete(end);
+        this.removeListener(type, push);
+      };
+    }, options);
+  }
+
+  /**
+   * Removes event listener(s) from the specified event type.
+   *
+   * If no callback is provided, removes all listeners for the event type.
+   * If callback is provided, removes only matching listeners.
+   * If context is also provided, removes only listeners with matching callback and context.
+   *
+   * @param type - The event type (string or number) to remove listener(s) from
+   * @param callback - Optional callback to remove specific listener
+   * @param context - Optional context object to match when removing
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public off<K extends EventType<Events>>(
+    type: K,
+    callback?: EventCallback<Events, K>,
+    context?: object,
+  ): this {
+    this.removeListener(type, callback, context);
+    return this;
+  }
+
+  /**
+   * Changes the priority of an existing listener, keeping its `once`, `times`,
+   * filter and signal settings.
+   *
+   * The listener is moved to its new position in the priority order. An emission
+   * already in progress keeps calling listeners in its original order; the new
+   * priority applies from the next emission. Does nothing if the listener is not
+   * registered.
+   *
+   * @param type - The event type the listener is registered for
+   * @param callback - The callback of the listener
+   * @param context - The context the listener was registered with, or `undefined`
+   * @param priority - The new priority value (lower = higher priority)
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public setPriority<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    context: object | undefined,
+    priority: number,
+  ): this {
+    const listenerData = this.listeners.get(type);
+    if (listenerData === undefined) {
+      return this;
+    }
+
+    const index = this.findListener(listenerData, callback, context);
+    if (index === -1 || listenerData._listeners[index]._priority === priority) {
+      return this;
+    }
+
+    // If the list is locked during emit, create a copy so the emission keeps its order
+    if (listenerData._isLocked) {
+      listenerData._isLocked = false;
+      listenerData._listeners = listenerData._listeners.slice();
+    }
+
+    const list = listenerData._listeners;
+    const listener = list[index];
+    list.splice(index, 1);
+
+    listener._priority = priority;
+    listenerData._index.remove(callback, context);
+    listenerData._index.insert(callback, context, priority);
+    this.insertListener(list, listener);
+    return this;
+  }
+
+  /**
+   * Removes all listeners of all event types, including catch-all, pattern
+   * and capture listeners.
+   *
+   * Like `off`, listeners removed during an emission are still called by that
+   * emission if they were not called yet.
+   *
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public offAll(): this {
+    // Clear first, so lifecycle hooks see an emitter without listeners
+    const entries = Array.from(this.listeners);
+    this.listeners.clear();
+    this.patterns.clear();
+    this.captureKeys.clear();
+
+    for (let i = 0; i < entries.length; i++) {
+      const [key, listenerData] = entries[i];
+      const list = listenerData._listeners;
+      for (let j = 0; j < list.length; j++) {
+        this.detachListener(key, listenerData, list[j]);
+        this.notifyRemoved(key, list[j]);
+      }
+      this.notifyIfEmpty(key);
+    }
+    return this;
+  }
+
+  /**
+   * Destroys the emitter: removes all listeners, detaches it from its event
+   * parent and marks it as destroyed.
+   *
+   * Listeners of emissions in progress that were not called yet are skipped,
+   * so destroying the emitter from a listener ends the current emission.
+   * Afterwards adding listeners and emitting events do nothing, or throw under
+   * `DestroyPolicy.THROW`. Pending `waitFor` promises are rejected and event
+   * streams end once their buffered emissions are pulled. Calling `destroy`
+   * again has no effect.
+   *
+   * @public
+   */
+  public destroy(): void {
+    if (this.isDestroyed) {
+      return;
+    }
+    this.isDestroyed = true;
+
+    // Mark listeners as used up, so emissions in progress skip them
+    for (const listenerData of this.listeners.values()) {
+      const list = listenerData._listeners;
+      for (let i = 0; i < list.length; i++) {
+        list[i]._isGuarded = true;
+        list[i]._called = true;
+      }
+    }
+
+    this.offAll();
+    this.stickyArgs.clear();
+    this.clearReplayBuffer();
+    this.parentEmitter = undefined;
+
+    // Settling removes the handlers from the set, so iterate over a copy
+    const handlers = Array.from(this.destroyHandlers);
+    this.destroyHandlers.clear();
+    for (let i = 0; i < handlers.length; i++) {
+      handlers[i]();
+    }
+  }
+
+  /**
+   * Removes every listener bound to a context, across all event types.
+   *
+   * Catch-all, pattern and capture listeners with the context are removed too.
+   * Only the event types the context has listeners for are visited.
+   *
+   * @example
+   * ```typescript
+   * class Widget {
+   *   public destroy(): void {
+   *     player.offContext(this);
+   *   }
+   * }
+   * ```
+   *
+   * @param context - The context object whose listeners are removed
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public offContext(context: object): this {
+    const keys = this.contextKeys.get(context);
+    if (keys === undefined) {
+      return this;
+    }
+
+    // Removing listeners updates the set, so iterate over a copy
+    for (const key of Array.from(keys)) {
+      const listenerData = this.listeners.get(key);
+      if (listenerData === undefined) {
+        continue;
+      }
+
+      const callbacks = listenerData._index.getCallbacks(context);
+      for (let i = 0; i < callbacks.length; i++) {
+        this.removeListener(key, callbacks[i], context, true);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Adds a catch-all listener that is called for every emitted event.
+   *
+   * Catch-all listeners receive the event type followed by the event arguments.
+   * They are called in priority order before the listeners of the emitted type,
+   * including for types that have no listeners of their own. Their return values
+   * are ignored, except that `STOP_PROPAGATION` skips the remaining catch-all
+   * listeners for that emission.
+   *
+   * @example
+   * ```typescript
+   * player.onAny((type, ...args) => console.log(type, args));
+   * ```
+   *
+   * @param callback - The function to be called when any event is emitted
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @returns The emitter instance for chaining
+   *
+   * @throws Error when attempting to add a duplicate catch-all listener
+   *
+   * @public
+   */
+  public onAny(
+    callback: AnyEventCallback<Events>,
+    context?: object,
+    priority = 0,
+  ): this {
+    this.addListener(ANY_EVENT, 0, priority, callback, context);
+    return this;
+  }
+
+  /**
+   * Removes catch-all listener(s) added with `onAny`.
+   *
+   * If no callback is provided, removes all catch-all listeners.
+   * If context is also provided, removes only the listener with matching callback and context.
+   *
+   * @param callback - Optional callback to remove specific listener
+   * @param context - Optional context object to match when removing
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public offAny(callback?: AnyEventCallback<Events>, context?: object): this {
+    this.removeListener(ANY_EVENT, callback, context);
+    return this;
+  }
+
+  /**
+   * Adds a listener for every event type matching a pattern.
+   *
+   * String patterns consist of dot-separated segments: `*` matches exactly one
+   * segment and `**` matches one or more segments, so `player.*` matches
+   * `player.died` and `player.**` also matches `player.health.changed`.
+   * A RegExp is tested against the event type converted to a string.
+   *
+   * Patterns are matched at emit time, and their listeners are called together
+   * with the listeners of the emitted type in priority order, receiving the same
+   * arguments. On equal priority, listeners of the exact type are called first.
+   *
+   * @example
+   * ```typescript
+   * player.onPattern('player.health.*', (health) => console.log('Health:', health));
+   * ```
+   *
+   * @param pattern - The pattern event types are matched against
+   * @param callback - The function to be called when a matching event is emitted
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @returns The emitter instance for chaining
+   *
+   * @throws Error when attempting to add a duplicate listener for the same pattern under `DuplicatePolicy.THROW`
+   *
+   * @public
+   */
+  public onPattern(
+    pattern: string | RegExp,
+    callback: Callback,
+    context?: object,
+    priority = 0,
+  ): this {
+    if (this.ignoreWhenDestroyed()) {
+      return this;
+    }
+
+    let patternData = this.patterns.get(pattern);
+    if (patternData === undefined) {
+      patternData = {
+        _matcher:
+          typeof pattern === "string" ? compilePattern(pattern) : pattern,
+        _key: Symbol(String(pattern)),
+      };
+      this.patterns.set(pattern, patternData);
+    }
+
+    this.addListener(patternData._key, 0, priority, callback, context);
+    return this;
+  }
+
+  /**
+   * Removes listener(s) added with `onPattern`.
+   *
+   * The pattern must be the same string, or the same RegExp instance, the
+   * listeners were added with. If no callback is provided, removes all listeners
+   * of the pattern.
+   *
+   * @param pattern - The pattern to remove listener(s) from
+   * @param callback - Optional callback to remove specific listener
+   * @param context - Optional context object to match when removing
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public offPattern(
+    pattern: string | RegExp,
+    callback?: Callback,
+    context?: object,
+  ): this {
+    const patternData = this.patterns.get(pattern);
+    if (patternData === undefined) {
+      return this;
+    }
+
+    this.removeListener(patternData._key, callback, context);
+    return this;
+  }
+
+  /**
+   * Adds a capture listener, called when a bubbling event emitted on this
+   * emitter or one of its descendants travels down the parent chain.
+   *
+   * Capture listeners are only called by `emitBubbling`. On the emitter the
+   * event was emitted on, they are called before its regular listeners.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The function to be called when the event is captured
+   * @param context - Optional this context object for the callback
+   * @param priority - Optional priority value (lower = higher priority, default: 0)
+   * @returns The emitter instance for chaining
+   *
+   * @throws Error when attempting to add a duplicate capture listener
+   *
+   * @public
+   */
+  public onCapture<K extends EventType<Events>>(
+    type: K,
+    callback: EventCallback<Events, K>,
+    context?: object,
+    priority = 0,
+  ): this {
+    if (this.ignoreWhenDestroyed()) {
+      return this;
+    }
+
+    let key = this.captureKeys.get(type);
+    if (key === undefined) {
+      key = Symbol(type);
+      this.captureKeys.set(type, key);
+    }
+
+    this.addListener(key, 0, priority, callback, context);
+    return this;
+  }
+
+  /**
+   * Removes capture listener(s) added with `onCapture`.
+   *
+   * If no callback is provided, removes all capture listeners for the event type.
+   *
+   * @param type - The event type (string or number) to remove capture listener(s) from
+   * @param callback - Optional callback to remove specific listener
+   * @param context - Optional context object to match when removing
+   * @returns The emitter instance for chaining
+   *
+   * @public
+   */
+  public offCapture<K extends EventType<Events>>(
+    type: K,
+    callback?: EventCallback<Events, K>,
+    context?: object,
+  ): this {
+    const key = this.captureKeys.get(type);
+    if (key === undefined) {
+      return this;
+    }
+
+    this.removeListener(key, callback, context);
+    return this;
+  }
+
+  /**
+   * Emits an event, triggering all registered listeners in priority order.
+   *
+   * Listeners are called in priority order (lower priority values first).
+   * One-time listeners are automatically removed after execution.
+   * A listener returning `STOP_PROPAGATION` prevents the remaining listeners from being called.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners
+   * @returns Boolean indicating if the event had listeners, including catch-all listeners
+   *
+   * @protected
+   */
+  protected emit<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): boolean {
+    if (this.ignoreWhenDestroyed()) {
+      return false;
+    }
+    this.recordEmission(type, args);
+    return this.dispatch(type, args) !== DispatchResult.NO_LISTENERS;
+  }
+
+  /**
+   * Emits an event and reports whether a listener consumed it.
+   *
+   * Behaves like `emit`: a listener consumes the event by returning
+   * `STOP_PROPAGATION`, which prevents the remaining listeners from being called.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners
+   * @returns `true` if a listener stopped propagation, `false` otherwise
+   *
+   * @protected
+   */
+  protected emitConsumable<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): boolean {
+    if (this.ignoreWhenDestroyed()) {
+      return false;
+    }
+    this.recordEmission(type, args);
+    return this.dispatch(type, args) === DispatchResult.CONSUMED;
+  }
+
+  /**
+   * Emits an event that travels along the parent chain set with `setEventParent`.
+   *
+   * Like DOM events, the emission has three phases: capture listeners of the
+   * ancestors are called from the root down, then the capture and regular
+   * listeners of this emitter, then the regular listeners of the ancestors from
+   * the parent up. Each emitter calls its listeners as with `emit`, except that
+   * errors collected under `ErrorPolicy.AGGREGATE` are thrown together once the
+   * emission ends.
+   *
+   * When the first argument is a `BubblingEvent`, it exposes the target, current
+   * target and phase to listeners, and `stopPropagation()` keeps the event from
+   * reaching further emitters. A listener returning `STOP_PROPAGATION` ends the
+   * emission right away.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners, optionally starting with a `BubblingEvent`
+   * @returns `true` if propagation was stopped, `false` otherwise
+   *
+   * @protected
+   */
+  protected emitBubbling<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): boolean {
+    if (this.ignoreWhenDestroyed()) {
+      return false;
+    }
+    this.recordEmission(type, args);
+    const event = args[0] instanceof BubblingEvent ? args[0] : undefined;
+    // Errors of every emitter in the chain, thrown once under `ErrorPolicy.AGGREGATE`
+    const errors: unknown[] = [];
+
+    const ancestors: AnyEventail[] = [];
+    for (
+      let ancestor = this.parentEmitter;
+      ancestor !== undefined;
+      ancestor = ancestor.parentEmitter
+    ) {
+      ancestors.push(ancestor);
+    }
+
+    try {
+      for (let i = ancestors.length - 1; i >= 0; i--) {
+        if (
+          this.propagate(
+            ancestors[i],
+            type,
+            args,
+            event,
+            errors,
+            EventPhase.CAPTURING,
+          )
+        ) {
+          return true;
+        }
+      }
+
+      if (
+        this.propagate(
+          this,
+          type,
+          args,
+          event,
+          errors,
+          EventPhase.AT_TARGET,
+          true,
+        ) ||
+        this.propagate(this, type, args, event, errors, EventPhase.AT_TARGET)
+      ) {
+        return true;
+      }
+
+      for (let i = 0; i < ancestors.length; i++) {
+        if (
+          this.propagate(
+            ancestors[i],
+            type,
+            args,
+            event,
+            errors,
+            EventPhase.BUBBLING,
+          )
+        ) {
+          return true;
+        }
+      }
+      return false;
+    } finally {
+      event?.enterPhase(EventPhase.NONE, this);
+      this.throwCollectedErrors(type, errors.length === 0 ? undefined : errors);
+    }
+  }
+
+  /**
+   * Emits an event and collects the values returned by the listeners.
+   *
+   * Listeners are called exactly as with `emit`. A listener returning
+   * `STOP_PROPAGATION` ends the emission and its sentinel is not collected.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @example
+   * ```typescript
+   * const items = this.emitCollect('contextMenu', target)
+   *   .flatMap(({ value }) => (Array.isArray(value) ? value : []));
+   * ```
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners
+   * @returns Returned values with listener priorities, in call order
+   *
+   * @protected
+   */
+  protected emitCollect<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): CollectedValue[] {
+    const results: CollectedValue[] = [];
+    if (this.ignoreWhenDestroyed()) {
+      return results;
+    }
+    this.recordEmission(type, args);
+    this.dispatch(type, args, results);
+    return results;
+  }
+
+  /**
+   * Emits an event that listeners can veto.
+   *
+   * A listener vetoes the event by returning `false`, or by calling `preventDefault()`
+   * when the first argument is a `CancelableEvent`. A `false` return also marks that
+   * event object as prevented. All listeners are called unless the event object was
+   * created with `stopOnVeto`, in which case emission ends at the first veto.
+   * A listener returning `STOP_PROPAGATION` ends the emission without vetoing it.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners, optionally starting with a `CancelableEvent`
+   * @returns `false` if any listener vetoed the event, `true` otherwise
+   *
+   * @protected
+   */
+  protected emitCancelable<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): boolean {
+    const event = args[0] instanceof CancelableEvent ? args[0] : undefined;
+    if (this.ignoreWhenDestroyed()) {
+      return event?.defaultPrevented !== true;
+    }
+
+    this.recordEmission(type, args);
+    let errors = this.notifyAny(type, args);
+
+    const snapshot = this.lockSnapshot(type);
+    const listeners =
+      this.patterns.size === 0
+        ? snapshot
+        : this.mergePatternListeners(type, snapshot);
+    if (listeners === undefined) {
+      this.throwCollectedErrors(type, errors);
+      return event?.defaultPrevented !== true;
+    }
+
+    let isVetoed = event?.defaultPrevented === true;
+    let hasItemsToDelete = false;
+    try {
+      for (let i = 0; i < listeners.length; i++) {
+        const listener = listeners[i];
+
+        let returned: unknown;
+        try {
+          // Skip listeners that are used up or whose filter rejects the arguments
+          if (!this.claimCall(listener, args)) {
+            continue;
+          }
+          if (listener._called) {
+            hasItemsToDelete = true;
+          }
+
+          returned = listener._callback.apply(
+            getListenerContext(listener),
+            args,
+          );
+        } catch (error) {
+          errors = this.handleListenerError(type, error, errors);
+          continue;
+        }
+
+        if (returned === false) {
+          event?.preventDefault();
+          isVetoed = true;
+        } else if (event?.defaultPrevented === true) {
+          isVetoed = true;
+        }
+
+        if (
+          returned === STOP_PROPAGATION ||
+          (isVetoed && event?.stopOnVeto === true)
+        ) {
+          break;
+        }
+      }
+    } finally {
+      this.releaseSnapshot(type, snapshot, hasItemsToDelete);
+    }
+
+    this.throwCollectedErrors(type, errors);
+    return !isVetoed;
+  }
+
+  /**
+   * Emits an event, threading its first argument through the listeners in priority order.
+   *
+   * Each listener receives the value returned by the previous listener as its first
+   * argument, followed by the remaining emitted arguments. The value returned by
+   * the last listener is returned to the caller, even if it is `undefined`.
+   * A listener returning `STOP_PROPAGATION` ends the pipeline, and the value it
+   * received is returned. One-time listeners are removed after execution.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @example
+   * ```typescript
+   * const damage = this.emitPipeline('damage', baseDamage, attacker);
+   * ```
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - The initial value followed by additional arguments for the listeners
+   * @returns The value returned by the last listener, or the initial value if there are no listeners
+   *
+   * @protected
+   */
+  protected emitPipeline<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): Events[K][0] {
+    if (this.ignoreWhenDestroyed()) {
+      return args[0];
+    }
+    this.recordEmission(type, args);
+    let errors = this.notifyAny(type, args);
+    const snapshot = this.lockSnapshot(type);
+    const listeners =
+      this.patterns.size === 0
+        ? snapshot
+        : this.mergePatternListeners(type, snapshot);
+    if (listeners === undefined) {
+      this.throwCollectedErrors(type, errors);
+      return args[0];
+    }
+
+    // Pass the value returned by each listener to the next one
+    const params: unknown[] = args.slice();
+    let hasItemsToDelete = false;
+    try {
+      for (let i = 0; i < listeners.length; i++) {
+        const listener = listeners[i];
+
+        let returned: unknown;
+        try {
+          // Skip listeners that are used up or whose filter rejects the arguments
+          if (!this.claimCall(listener, params)) {
+            continue;
+          }
+          if (listener._called) {
+            hasItemsToDelete = true;
+          }
+
+          returned = listener._callback.apply(
+            getListenerContext(listener),
+            params,
+          );
+        } catch (error) {
+          // A failed step leaves the value unchanged
+          errors = this.handleListenerError(type, error, errors);
+          continue;
+        }
+
+        if (returned === STOP_PROPAGATION) {
+          break;
+        }
+        params[0] = returned;
+      }
+    } finally {
+      this.releaseSnapshot(type, snapshot, hasItemsToDelete);
+    }
+
+    this.throwCollectedErrors(type, errors);
+    return params[0];
+  }
+
+  /**
+   * Emits an event, threading its first argument through the listeners and
+   * awaiting each of them in priority order.
+   *
+   * Works like `emitPipeline`, but each listener may return a promise, which is
+   * awaited before its result is passed to the next listener.
+   * Rejections are handled according to the error policy, like errors thrown
+   * by synchronous listeners.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - The initial value followed by additional arguments for the listeners
+   * @returns Promise resolving to the value produced by the last listener
+   *
+   * @protected
+   */
+  protected async emitPipelineAsync<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): Promise<Awaited<Events[K][0]>> {
+    if (this.ignoreWhenDestroyed()) {
+      return args[0] as Awaited<Events[K][0]>;
+    }
+    this.recordEmission(type, args);
+    let errors = this.notifyAny(type, args);
+    const snapshot = this.lockSnapshot(type);
+    const listeners =
+      this.patterns.size === 0
+        ? snapshot
+        : this.mergePatternListeners(type, snapshot);
+    if (listeners === undefined) {
+      this.throwCollectedErrors(type, errors);
+      return args[0] as Awaited<Events[K][0]>;
+    }
+
+    // Pass the value resolved by each listener to the next one
+    const params: unknown[] = args.slice();
+    let hasItemsToDelete = false;
+    try {
+      for (let i = 0; i < listeners.length; i++) {
+        const listener = listeners[i];
+
+        let returned: unknown;
+        try {
+          // Skip listeners that are used up or whose filter rejects the arguments
+          if (!this.claimCall(listener, params)) {
+            continue;
+          }
+          if (listener._called) {
+            hasItemsToDelete = true;
+          }
+
+          returned = await listener._callback.apply(
+            getListenerContext(listener),
+            params,
+          );
+        } catch (error) {
+          // A failed step leaves the value unchanged
+          errors = this.handleListenerError(type, error, errors);
+          continue;
+        }
+
+        if (returned === STOP_PROPAGATION) {
+          break;
+        }
+        params[0] = returned;
+      }
+    } finally {
+      this.releaseSnapshot(type, snapshot, hasItemsToDelete);
+    }
+
+    this.throwCollectedErrors(type, errors);
+    return params[0] as Awaited<Events[K][0]>;
+  }
+
+  /**
+   * Emits an event and awaits each listener sequentially in priority order.
+   *
+   * Each listener is awaited before the next one is invoked, so a listener
+   * returning a promise delays the rest of the chain. One-time listeners are
+   * removed after execution, as with `emit`. A listener resolving to
+   * `STOP_PROPAGATION` ends the chain. Rejections are handled according to
+   * the error policy, like errors thrown by synchronous listeners.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners
+   * @returns Promise resolving to a boolean indicating if the event had listeners, including catch-all listeners
+   *
+   * @protected
+   */
+  protected async emitAsync<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): Promise<boolean> {
+    if (this.ignoreWhenDestroyed()) {
+      return false;
+    }
+    this.recordEmission(type, args);
+    const hasAnyListeners = this.listeners.has(ANY_EVENT);
+    let errors = this.notifyAny(type, args);
+    const snapshot = this.lockSnapshot(type);
+    const listeners =
+      this.patterns.size === 0
+        ? snapshot
+        : this.mergePatternListeners(type, snapshot);
+    if (listeners === undefined) {
+      this.throwCollectedErrors(type, errors);
+      return hasAnyListeners;
+    }
+
+    // Execute all listeners in the snapshot, one after another
+    let hasItemsToDelete = false;
+    try {
+      for (let i = 0; i < listeners.length; i++) {
+        const listener = listeners[i];
+
+        let returned: unknown;
+        try {
+          // Skip listeners that are used up or whose filter rejects the arguments
+          if (!this.claimCall(listener, args)) {
+            continue;
+          }
+          if (listener._called) {
+            hasItemsToDelete = true;
+          }
+
+          returned = await listener._callback.apply(
+            getListenerContext(listener),
+            args,
+          );
+        } catch (error) {
+          errors = this.handleListenerError(type, error, errors);
+          continue;
+        }
+
+        if (returned === STOP_PROPAGATION) {
+          break;
+        }
+      }
+    } finally {
+      this.releaseSnapshot(type, snapshot, hasItemsToDelete);
+    }
+
+    this.throwCollectedErrors(type, errors);
+    return true;
+  }
+
+  /**
+   * Emits an event, starting all listeners at once and waiting for all of them to settle.
+   *
+   * Listeners are started in priority order without awaiting each other, so
+   * `STOP_PROPAGATION` has no effect on this kind of emission.
+   * A listener that throws synchronously is reported as rejected and does not
+   * prevent the remaining listeners from being started.
+   * One-time listeners are removed as soon as all listeners have been started.
+   * Errors of catch-all listeners, and using a destroyed emitter under
+   * `DestroyPolicy.THROW`, reject the returned promise instead of throwing.
+   *
+   * This method is protected so only the extending class can emit events internally.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners
+   * @returns Promise resolving to the settled result of each started listener in priority
+   * order, with its callback and priority. Listeners skipped by their filter are not reported
+   *
+   * @protected
+   */
+  protected async emitParallel<K extends EventType<Events>>(
+    type: K,
+    ...args: Events[K]
+  ): Promise<ParallelResult[]> {
+    if (this.ignoreWhenDestroyed()) {
+      return [];
+    }
+    this.recordEmission(type, args);
+    const errors = this.notifyAny(type, args);
+    const snapshot = this.lockSnapshot(type);
+    const listeners =
+      this.patterns.size === 0
+        ? snapshot
+        : this.mergePatternListeners(type, snapshot);
+    if (listeners === undefined) {
+      this.throwCollectedErrors(type, errors);
+      return [];
+    }
+
+    // Start all listeners in the snapshot without awaiting them
+    const promises: Promise<unknown>[] = [];
+    const started: Listener[] = [];
+    let hasItemsToDelete = false;
+    for (let i = 0; i < listeners.length; i++) {
+      const listener = listeners[i];
+
+      let promise: Promise<unknown>;
+      try {
+        // Skip listeners that are used up or whose filter rejects the arguments
+        if (!this.claimCall(listener, args)) {
+          continue;
+        }
+        if (listener._called) {
+          hasItemsToDelete = true;
+        }
+
+        promise = Promise.resolve(
+          listener._callback.apply(getListenerContext(listener), args),
+        );
+      } catch (error) {
+        promise = Promise.reject(error);
+      }
+      promises.push(promise);
+      started.push(listener);
+    }
+
+    this.releaseSnapshot(type, snapshot, hasItemsToDelete);
+    this.throwCollectedErrors(type, errors);
+
+    const settled = await Promise.allSettled(promises);
+    return settled.map((result, i) => ({
+      ...result,
+      callback: started[i]._callback,
+      priority: started[i]._priority,
+    }));
+  }
+
+  /**
+   * Forgets the last emission of a sticky event type, so listeners added
+   * afterwards only receive later emissions.
+   *
+   * This method is protected so only the extending class can clear sticky events.
+   *
+   * @param type - The sticky event type to clear, or `undefined` to clear all of them
+   *
+   * @protected
+   */
+  protected clearSticky(type?: EventType<Events>): void {
+    if (type === undefined) {
+      this.stickyArgs.clear();
+    } else {
+      this.stickyArgs.delete(type);
+    }
+  }
+
+  /**
+   * Forgets the emissions kept in the replay buffer of an event type.
+   *
+   * This method is protected so only the extending class can clear replay buffers.
+   *
+   * @param type - The event type to clear, or `undefined` to clear every replay buffer
+   *
+   * @protected
+   */
+  protected clearReplayBuffer(type?: EventType<Events>): void {
+    for (const [key, buffer] of this.replayBuffers) {
+      if (type === undefined || key === type) {
+        buffer._args.length = 0;
+        buffer._times.length = 0;
+      }
+    }
+  }
+
+  /* eslint-disable @typescript-eslint/no-unused-vars -- Lifecycle hooks are no-ops meant to be overridden */
+
+  /**
+   * Called after a listener is added for an event type.
+   * Override to audit listeners; the default implementation does nothing.
+   *
+   * Catch-all, pattern and capture listeners do not trigger lifecycle hooks.
+   *
+   * @param type - The event type the listener was added for
+   * @param callback - The callback of the listener
+   * @param context - The context of the listener
+   * @param priority - The priority of the listener
+   *
+   * @protected
+   */
+  protected listenerAdded(
+    type: EventType<Events>,
+    callback: Callback,
+    context: object | undefined,
+    priority: number,
+  ): void {}
+
+  /**
+   * Called after a listener is removed from an event type, whether by `off`,
+   * `offContext`, `offAll`, after its last call or when its abort signal fires.
+   * Override to audit listeners; the default implementation does nothing.
+   *
+   * @param type - The event type the listener was removed from
+   * @param callback - The callback of the listener
+   * @param context - The context of the listener, `undefined` if a weak context was collected
+   * @param priority - The priority of the listener
+   *
+   * @protected
+   */
+  protected listenerRemoved(
+    type: EventType<Events>,
+    callback: Callback,
+    context: object | undefined,
+    priority: number,
+  ): void {}
+
+  /**
+   * Called after an event type without listeners gains its first listener,
+   * following `listenerAdded`. Override to start producing the event, for
+   * example by subscribing to a native source; the default implementation does nothing.
+   *
+   * @param type - The event type that gained a listener
+   *
+   * @protected
+   */
+  protected firstListenerAdded(type: EventType<Events>): void {}
+
+  /**
+   * Called after an event type loses its last listener, following
+   * `listenerRemoved`. Override to stop producing the event; the default
+   * implementation does nothing.
+   *
+   * @param type - The event type that has no listeners left
+   *
+   * @protected
+   */
+  protected lastListenerRemoved(type: EventType<Events>): void {}
+
+  /* eslint-enable @typescript-eslint/no-unused-vars */
+
+  /**
+   * Calls the listeners of an event type in priority order.
+   *
+   * @param type - The event type (string or number) to emit
+   * @param args - Arguments to pass to the listeners
+   * @param results - Optional array receiving the values returned by listeners
+   * @param key - Key of the listener list to call, if other than the event type
+   * @param collected - Optional array receiving listener errors under `ErrorPolicy.AGGREGATE`
+   * for the caller to throw, instead of throwing them
+   * @returns The outcome of the emission
+   *
+   * @private
+   */
+  private dispatch(
+    type: string | number,
+    args: unknown[],
+    results?: CollectedValue[],
+    key: ListenerKey = type,
+    collected?: unknown[],
+  ): DispatchResult {
+    // Catch-all and pattern listeners only join the listeners of the type itself
+    const isTypeKey = key === type;
+    const hasAnyListeners = isTypeKey && this.listeners.has(ANY_EVENT);
+    let errors = isTypeKey ? this.notifyAny(type, args, collected) : collected;
+
+    const snapshot = this.lockSnapshot(key);
+    const listeners =
+      this.patterns.size === 0 || !isTypeKey
+        ? snapshot
+        : this.mergePatternListeners(type, snapshot);
+    if (listeners === undefined) {
+      if (collected === undefined) {
+        this.throwCollectedErrors(type, errors);
+      }
+      return hasAnyListeners
+        ? DispatchResult.DELIVERED
+        : DispatchResult.NO_LISTENERS;
+    }
+
+    // Execute listeners in the snapshot until one stops propagation
+    let result = DispatchResult.DELIVERED;
+    let hasItemsToDelete = false;
+    try {
+      for (let i = 0; i < listeners.length; i++) {
+        const listener = listeners[i];
+
+        let returned: unknown;
+        try {
+          // Skip listeners that are used up, whose filter rejects the arguments or
+          // whose weak context is gone, keeping plain listeners on the fast path
+          if (listener._isGuarded) {
+            if (!this.claimCall(listener, args)) {
+              continue;
+            }
+            if (listener._called) {
+              hasItemsToDelete = true;
+            }
+          }
+
+          returned = listener._callback.apply(
+            getListenerContext(listener),
+            args,
+          );
+        } catch (error) {
+          errors = this.handleListenerError(type, error, errors);
+          continue;
+        }
+
+        if (returned === STOP_PROPAGATION) {
+          result = DispatchResult.CONSUMED;
+          break;
+        }
+
+        results?.push({ value: returned, priority: listener._priority });
+      }
+    } finally {
+      // Always release the lock and remove called once-listeners,
+      // even if a listener error escapes the loop
+      this.releaseSnapshot(key, snapshot, hasItemsToDelete);
+    }
+
+    if (collected === undefined) {
+      this.throwCollectedErrors(type, errors);
+    }
+    return result;
+  }
+
+  /**
+   * Calls the catch-all listeners with the event type followed by the event arguments.
+   * They are called synchronously by every emission mode, before the listeners of the type.
+   * Their errors are returned rather than thrown under `ErrorPolicy.AGGREGATE`, so the
+   * caller can throw them together with the errors of the listeners of the type.
+   *
+   * @param type - The emitted event type
+   * @param args - Arguments of the emitted event
+   * @param collected - Optional array receiving the errors, see `dispatch`
+   * @returns Errors collected so far, or `undefined` if there were none
+   *
+   * @private
+   */
+  private notifyAny(
+    type: string | number,
+    args: unknown[],
+    collected?: unknown[],
+  ): unknown[] | undefined {
+    if (!this.listeners.has(ANY_EVENT)) {
+      return collected;
+    }
+
+    const errors = collected ?? [];
+    this.dispatch(type, [type, ...args], undefined, ANY_EVENT, errors);
+    return errors.length === 0 && collected === undefined ? undefined : errors;
+  }
+
+  /**
+   * Calls the listeners of one emitter during a bubbling emission.
+   *
+   * @param emitter - The emitter whose listeners are called
+   * @param type - The emitted event type
+   * @param args - Arguments of the emitted event
+   * @param event - The event object, if the first argument is a `BubblingEvent`
+   * @param errors - Array receiving listener errors under `ErrorPolicy.AGGREGATE`
+   * @param phase - The phase of the emission
+   * @param isTargetCapture - Whether to call the capture listeners of the target
+   * @returns `true` if the emission must not continue with the next listeners
+   *
+   * @private
+   */
+  private propagate(
+    emitter: AnyEventail,
+    type: string | number,
+    args: unknown[],
+    event: BubblingEvent | undefined,
+    errors: unknown[],
+    phase: EventPhase,
+    isTargetCapture = false,
+  ): boolean {
+    let key: ListenerKey | undefined = type;
+    if (phase === EventPhase.CAPTURING || isTargetCapture) {
+      key = emitter.captureKeys.get(type);
+      if (key === undefined) {
+        return false;
+      }
+    }
+
+    event?.enterPhase(phase, this, emitter);
+    const result = emitter.dispatch(type, args, undefined, key, errors);
+
+    // The target is one emitter, so stopPropagation() in its capture listeners
+    // still lets its regular listeners run, like DOM events
+    return (
+      result === DispatchResult.CONSUMED ||
+      (!isTargetCapture && event?.propagationStopped === true)
+    );
+  }
+
+  /**
+   * Records the arguments of an emission if its event type is sticky or has
+   * a replay buffer.
+   *
+   * @param type - The emitted event type
+   * @param args - Arguments of the emitted event
+   *
+   * @private
+   */
+  private recordEmission(type: string | number, args: unknown[]): void {
+    // Most emitters record nothing, keep their emissions cheap
+    if (this.stickyTypes.size === 0 && this.replayBuffers.size === 0) {
+      return;
+    }
+
+    if (this.stickyTypes.has(type)) {
+      this.stickyArgs.set(type, args);
+    }
+
+    const buffer = this.replayBuffers.get(type);
+    if (buffer !== undefined) {
+      buffer._args.push(args);
+      buffer._times.push(Date.now());
+      if (buffer._args.length > buffer._size) {
+        buffer._args.shift();
+        buffer._times.shift();
+      }
+    }
+  }
+
+  /**
+   * Drops the emissions of a replay buffer that are older than its maximum age.
+   *
+   * @param buffer - The replay buffer to prune
+   *
+   * @private
+   */
+  private pruneReplayBuffer(buffer: ReplayBuffer): void {
+    const oldest = Date.now() - buffer._maxAge;
+    let expired = 0;
+    while (expired < buffer._times.length && buffer._times[expired] < oldest) {
+      expired++;
+    }
+    if (expired > 0) {
+      buffer._args.splice(0, expired);
+      buffer._times.splice(0, expired);
+    }
+  }
+
+  /**
+   * Calls a newly added listener with past emissions of its event type: the
+   * buffered emissions, oldest first, if the listener asked for them and the
+   * type has a replay buffer, otherwise the last emission of a sticky type.
+   * A one-time listener used up by the replay is removed.
+   *
+   * @param type - The event type the listener was added for
+   * @param listener - The added listener, or `undefined` if none was added
+   * @param isReplayed - Whether the listener asked for the replay buffer
+   *
+   * @throws The listener error, according to the error policy
+   *
+   * @private
+   */
+  private replayEmissions(
+    type: string | number,
+    listener: Listener | undefined,
+    isReplayed: boolean,
+  ): void {
+    if (listener === undefined) {
+      return;
+    }
+
+    let emissions: unknown[][] | undefined;
+    const buffer = isReplayed ? this.replayBuffers.get(type) : undefined;
+    if (buffer !== undefined) {
+      this.pruneReplayBuffer(buffer);
+      // Copy, so emissions made by the listener are not replayed to it
+      emissions = buffer._args.slice();
+    } else {
+      const args = this.stickyArgs.get(type);
+      emissions = args === undefined ? undefined : [args];
+    }
+    if (emissions === undefined || emissions.length === 0) {
+      return;
+    }
+
+    let errors: unknown[] | undefined;
+    try {
+      // Stop once a limited listener has used up its executions
+      for (let i = 0; i < emissions.length && !listener._called; i++) {
+        try {
+          if (this.claimCall(listener, emissions[i])) {
+            listener._callback.apply(
+              getListenerContext(listener),
+              emissions[i],
+            );
+          }
+        } catch (error) {
+          errors = this.handleListenerError(type, error, errors);
+        }
+      }
+    } finally {
+      const listenerData = this.listeners.get(type);
+      if (listener._called && listenerData !== undefined) {
+        this.removeCalledListeners(type, listenerData);
+      }
+    }
+
+    this.throwCollectedErrors(type, errors);
+  }
+
+  /**
+   * Checks whether a call on a destroyed emitter must be ignored.
+   *
+   * @returns `true` if the emitter is destroyed and the call should do nothing
+   *
+   * @throws Error when the emitter is destroyed under `DestroyPolicy.THROW`
+   *
+   * @private
+   */
+  private ignoreWhenDestroyed(): boolean {
+    if (!this.isDestroyed) {
+      return false;
+    }
+    if (this.destroyPolicy === DestroyPolicy.THROW) {
+      throw new Error("Emitter has been destroyed");
+    }
+    return true;
+  }
+
+  /**
+   * Handles an error thrown by a listener according to the error policy.
+   *
+   * @param type - The event type whose listener threw
+   * @param error - The thrown error
+   * @param errors - Errors collected so far during the current emission
+   * @returns Errors collected so far, including this one under `ErrorPolicy.AGGREGATE`
+   *
+   * @throws The original error under `ErrorPolicy.RETHROW`, or when there is nowhere
+   * to route it under `ErrorPolicy.ROUTE`
+   *
+   * @private
+   */
+  private handleListenerError(
+    type: string | number,
+    error: unknown,
+    errors: unknown[] | undefined,
+  ): unknown[] | undefined {
+    switch (this.errorPolicy) {
+      case ErrorPolicy.RETHROW:
+        throw error;
+
+      case ErrorPolicy.AGGREGATE:
+        if (errors === undefined) {
+          return [error];
+        }
+        errors.push(error);
+        return errors;
+
+      case ErrorPolicy.ROUTE:
+        if (this.errorHandler !== undefined) {
+          this.errorHandler(error, type);
+          return errors;
+        }
+
+        // Errors thrown by `error` listeners are not routed again
+        if (
+          type !== ERROR_EVENT &&
+          this.dispatch(ERROR_EVENT, [error, type]) !==
+            DispatchResult.NO_LISTENERS
+        ) {
+          return errors;
+        }
+        throw error;
+    }
+  }
+
+  /**
+   * Throws the errors collected under `ErrorPolicy.AGGREGATE`, if any.
+   *
+   * @param type - The emitted event type
+   * @param errors - Errors collected during the emission
+   *
+   * @throws AggregateError when at least one error was collected
+   *
+   * @private
+   */
+  private throwCollectedErrors(
+    type: string | number,
+    errors: unknown[] | undefined,
+  ): void {
+    if (errors !== undefined) {
+      throw new AggregateError(
+        errors,
+        `${errors.length} listener(s) of event "${type}" threw`,
+      );
+    }
+  }
+
+  /**
+   * Decides whether a listener from a snapshot should be called with the given
+   * arguments and counts the execution.
+   *
+   * A listener whose filter rejects the arguments is skipped without counting.
+   * Limited listeners are marked as used up before they are called, so they are
+   * removed even if they throw and are not called again by nested or concurrent
+   * emissions.
+   *
+   * @param listener - The listener about to be called
+   * @param args - Arguments the listener would be called with
+   * @returns `true` if the listener should be called
+   *
+   * @throws Any error thrown by the listener filter
+   *
+   * @private
+   */
+  private claimCall(listener: Listener, args: unknown[]): boolean {
+    if (listener._called) {
+      return false;
+    }
+
+    // The finalization registry removes the listener later
+    if (
+      listener._contextRef !== undefined &&
+      listener._contextRef.deref() === undefined
+    ) {
+      return false;
+    }
+
+    if (
+      listener._filter !== undefined &&
+      listener._filter.apply(getListenerContext(listener), args) !== true
+    ) {
+      return false;
+    }
+
+    if (listener._remaining > 0 && --listener._remaining === 0) {
+      listener._called = true;
+    }
+    return true;
+  }
+
+  /**
+   * Locks the listener list of an event type for iteration.
+   *
+   * If the list is already locked by another emission, a copy is made and
+   * locked instead, so each emission iterates over its own stable array.
+   *
+   * @param type - The emitted event type
+   * @returns The snapshot of listeners to iterate over, or `undefined` if the type has no listeners
+   *
+   * @private
+   */
+  private lockSnapshot(type: ListenerKey): Listener[] | undefined {
+    const listenerData = this.listeners.get(type);
+    if (listenerData === undefined) {
+      return undefined;
+    }
+
+    if (listenerData._listeners.length === 0) {
+      return undefined;
+    }
+
+    // Create a snapshot of listeners to iterate safely
+    // This prevents issues if listeners are added/removed during emission
+    if (listenerData._isLocked) {
+      // Already locked, create a new copy
+      listenerData._listeners = listenerData._listeners.slice();
+    } else {
+      // Lock the current array to prevent mutations
+      listenerData._isLocked = true;
+    }
+
+    return listenerData._listeners;
+  }
+
+  /**
+   * Combines a snapshot of exact listeners with the listeners of the patterns
+   * matching the emitted type, ordered by priority.
+   *
+   * Listeners of equal priority keep exact listeners first, then pattern
+   * listeners in pattern registration order. The combined list is a new array,
+   * so pattern listeners added or removed during the emission do not affect it.
+   *
+   * @param type - The emitted event type
+   * @param snapshot - The snapshot returned by `lockSnapshot`
+   * @returns The listeners to iterate over, or `undefined` if there are none
+   *
+   * @private
+   */
+  private mergePatternListeners(
+    type: string | number,
+    snapshot: Listener[] | undefined,
+  ): Listener[] | undefined {
+    const name = String(type);
+    let merged: Listener[] | undefined;
+
+    for (const pattern of this.patterns.values()) {
+      pattern._matcher.lastIndex = 0;
+      if (!pattern._matcher.test(name)) {
+        continue;
+      }
+
+      const listenerData = this.listeners.get(pattern._key);
+      if (listenerData === undefined) {
+        continue;
+      }
+
+      merged ??= snapshot === undefined ? [] : snapshot.slice();
+      merged.push(...listenerData._listeners);
+    }
+
+    if (merged === undefined) {
+      return snapshot;
+    }
+
+    // Array.prototype.sort is stable, so equal priorities keep their order
+    return merged.sort((a, b) => a._priority - b._priority);
+  }
+
+  /**
+   * Releases a snapshot taken by `lockSnapshot` and removes one-time listeners
+   * that were called during the emission.
+   *
+   * @param type - The emitted event type
+   * @param snapshot - The snapshot returned by `lockSnapshot`
+   * @param hasItemsToDelete - Whether one-time listeners were called
+   *
+   * @private
+   */
+  private releaseSnapshot(
+    type: ListenerKey,
+    snapshot: Listener[] | undefined,
+    hasItemsToDelete: boolean,
+  ): void {
+    // Only pattern listeners were called, nothing was locked
+    if (snapshot === undefined) {
+      return;
+    }
+
+    // Check if the event type still exists (could be removed by a listener)
+    const actualListenerData = this.listeners.get(type);
+    if (actualListenerData === undefined) {
+      return;
+    }
+
+    // Release the lock if we're working with the original array
+    if (actualListenerData._listeners === snapshot) {
+      actualListenerData._isLocked = false;
+    }
+
+    // Remove one-time listeners that were called
+    if (hasItemsToDelete) {
+      this.removeCalledListeners(type, actualListenerData);
+    }
+  }
+
+  /**
+   * Removes the listeners marked as called from a listener list.
+   *
+   * @param type - The key of the listener list
+   * @param listenerData - The listener data to compact
+   *
+   * @private
+   */
+  private removeCalledListeners(
+    type: ListenerKey,
+    listenerData: ListenerData,
+  ): void {
+    // The list may still be iterated by another pending emission
+    if (listenerData._isLocked) {
+      listenerData._isLocked = false;
+      listenerData._listeners = listenerData._listeners.slice();
+    }
+
+    const list = listenerData._listeners;
+    const removed: Listener[] = [];
+
+    let w = 0; // Write index for in-place array compaction
+    for (let r = 0; r < list.length; r++) {
+      const listener = list[r];
+      if (!listener._called) {
+        // Keep this listener - copy to write position
+        list[w++] = listener;
+      } else {
+        // Remove called once-listener from index
+        this.detachListener(type, listenerData, listener);
+        removed.push(listener);
+      }
+    }
+
+    // Clean up the map entry if no listeners remain
+    if (w === 0) {
+      this.deleteListeners(type);
+    } else {
+      // Trim array to new size
+      list.length = w;
+    }
+
+    // Hooks run once the list is consistent, as they may add or remove listeners
+    for (let i = 0; i < removed.length; i++) {
+      this.notifyRemoved(type, removed[i]);
+    }
+    this.notifyIfEmpty(type);
+  }
+
+  /**
+   * Creates the handle returned by `subscribe` and `subscribeOnce`, bound to
+   * the listener the registration added or counted.
+   *
+   * @param type - The event type the listener was added for
+   * @param listener - The added listener, or `undefined` if none was added
+   * @param callback - The callback of the registration
+   * @param context - The context of the registration
+   * @returns Subscription handle, inactive if no listener is bound to it
+   *
+   * @private
+   */
+  private createSubscription(
+    type: string | number,
+    listener: Listener | undefined,
+    callback: Callback,
+    context: object | undefined,
+  ): Subscription {
+    let subscribed = listener;
+
+    // A counted registration releases one reference of the existing listener
+    if (
+      subscribed === undefined &&
+      this.duplicatePolicy === DuplicatePolicy.COUNT
+    ) {
+      const listenerData = this.listeners.get(type);
+      if (listenerData !== undefined) {
+        const index = this.findListener(listenerData, callback, context);
+        if (index !== -1) {
+          subscribed = listenerData._listeners[index];
+        }
+      }
+    }
+
+    if (subscribed === undefined) {
+      return new Subscription();
+    }
+
+    const bound = subscribed;
+    return new Subscription(() => this.removeSubscribed(type, bound));
+  }
+
+  /**
+   * Removes a listener bound to a subscription, if it is still registered.
+   * A listener that was removed and added again is a different object and is kept.
+   *
+   * @param type - The event type the listener was added for
+   * @param listener - The listener bound to the subscription
+   *
+   * @private
+   */
+  private removeSubscribed(type: string | number, listener: Listener): void {
+    const listenerData = this.listeners.get(type);
+    if (listenerData === undefined) {
+      return;
+    }
+
+    const context = getListenerContext(listener);
+    const index = this.findListener(listenerData, listener._callback, context);
+    if (index !== -1 && listenerData._listeners[index] === listener) {
+      this.removeListener(type, listener._callback, context);
+    }
   }
 
   /**
-   * Adds a one-time event listener that removes itself after first execution.
+   * Removes a weak listener whose context has been garbage collected.
+   * Called by the finalization registry.
    *
-   * Listeners are executed in priority order (lower values first).
-   * Listeners with the same priority may execute in any order.
-   *
-   * @param type - The event type (string or number) to listen for
-   * @param callback - The function to be called when the event is emitted
-   * @param context - Optional this context object for the callback
-   * @param priority - Optional priority value (lower = higher priority, default: 0)
-   * @returns The emitter instance for chaining
+   * @param type - The key of the listener list the listener belongs to
+   * @param listener - The collected listener
    *
-   * @public
+   * @private
    */
-  public once(
-    type: string | number,
-    callback: Callback,
-    context?: object,
-    priority = 0,
-  ): this {
-    this.addListener(type, true, priority, callback, context);
-    return this;
+  private pruneWeakListener(type: ListenerKey, listener: Listener): void {
+    const listenerData = this.listeners.get(type);
+    if (listenerData === undefined) {
+      return;
+    }
+
+    // Mark the listener so pending emissions skip it too
+    listener._isGuarded = true;
+    listener._called = true;
+    this.removeCalledListeners(type, listenerData);
   }
 
   /**
-   * Removes event listener(s) from the specified event type.
-   *
-   * If no callback is provided, removes all listeners for the event type.
-   * If callback is provided, removes only matching listeners.
-   * If context is also provided, removes only listeners with matching callback and context.
+   * Removes event listener(s) from the specified event type, see `off`.
    *
    * @param type - The event type (string or number) to remove listener(s) from
    * @param callback - Optional callback to remove specific listener
    * @param context - Optional context object to match when removing
-   * @returns The emitter instance for chaining
+   * @param isForced - Whether to remove a counted listener regardless of its references
    *
-   * @public
+   * @private
    */
-  public off(
-    type: string | number,
+  private removeListener(
+    type: ListenerKey,
     callback?: Callback,
     context?: object,
-  ): this {
+    isForced = false,
+  ): void {
     const listenerData = this.listeners.get(type);
     if (listenerData === undefined) {
-      return this;
+      return;
     }
 
     // If the list is locked during emit, create a copy to avoid mutation during iteration
@@ -170,234 +2669,443 @@ export abstract class Eventail {
 
     const list = listenerData._listeners;
     if (list.length === 0) {
-      this.listeners.delete(type);
-      return this;
+      this.deleteListeners(type);
+      return;
     }
 
     // Remove all listeners for this event type
     if (callback === undefined) {
-      this.listeners.delete(type);
+      this.deleteListeners(type);
       // Clean up listener index for all removed listeners
       for (let i = 0; i < list.length; i++) {
-        const listener = list[i];
-        listenerData._index.remove(listener._callback, listener._context);
+        this.detachListener(type, listenerData, list[i]);
+        this.notifyRemoved(type, list[i]);
       }
-      return this;
+      this.notifyIfEmpty(type);
+      return;
     }
 
     // Remove specific listener matching callback and optional context
-    {
-      const listLength = list.length;
-      if (list[0]._callback === callback && list[0]._context === context) {
-        listLength === 1 ? this.listeners.delete(type) : list.shift();
-        return this;
-      }
+    const index = this.findListener(listenerData, callback, context);
+    if (index === -1) {
+      return;
+    }
 
-      const lastIndex = listLength - 1;
-      if (
-        list[lastIndex]._callback === callback &&
-        list[lastIndex]._context === context
-      ) {
-        list.pop();
-        return this;
+    // A counted listener stays until every registration is removed
+    if (!isForced && list[index]._references > 1) {
+      list[index]._references--;
+      return;
+    }
+
+    const listener = list[index];
+    this.detachListener(type, listenerData, listener);
+    if (list.length === 1) {
+      this.deleteListeners(type);
+    } else if (index === 0) {
+      list.shift();
+    } else if (index === list.length - 1) {
+      list.pop();
+    } else {
+      list.splice(index, 1);
+    }
+
+    this.notifyRemoved(type, listener);
+    this.notifyIfEmpty(type);
+  }
+
+  /**
+   * Deletes the listener list of a key that has no listeners left, and forgets
+   * the pattern or capture type the key was created for, so emissions do not
+   * keep matching it.
+   *
+   * @param key - The key of the listener list
+   *
+   * @private
+   */
+  private deleteListeners(key: ListenerKey): void {
+    this.listeners.delete(key);
+    if (typeof key !== "symbol" || key === ANY_EVENT) {
+      return;
+    }
+
+    for (const [pattern, patternData] of this.patterns) {
+      if (patternData._key === key) {
+        this.patterns.delete(pattern);
+        return;
       }
+    }
+    for (const [type, captureKey] of this.captureKeys) {
+      if (captureKey === key) {
+        this.captureKeys.delete(type);
+        return;
+      }
+    }
+  }
 
-      const smallLength = 10;
-      if (
-        listLength < smallLength ||
-        list[0]._priority === list[lastIndex]._priority
-      ) {
-        for (let i = 1; i < lastIndex; i++) {
-          const listener = list[i];
-          if (
-            listener._callback === callback &&
-            listener._context === context
-          ) {
-            list.splice(i, 1);
-            return this;
-          }
-        }
-      } else {
-        const priority = listenerData._index.getPriority(callback, context);
-        if (priority === undefined) {
-          return this;
-        }
+  /**
+   * Finds the position of a listener in the listener list of an event type.
+   *
+   * Looks the listener up in the index first, so missing listeners are not
+   * searched for. Then checks both ends of the list, scans small or
+   * single-priority lists and binary searches the priority range of the
+   * listener in others.
+   *
+   * @param listenerData - The listener data to search
+   * @param callback - The callback of the listener
+   * @param context - The context of the listener
+   * @returns The index of the listener, or -1 if it is not in the list
+   *
+   * @private
+   */
+  private findListener(
+    listenerData: ListenerData,
+    callback: Callback,
+    context: object | undefined,
+  ): number {
+    if (!listenerData._index.has(callback, context)) {
+      return -1;
+    }
 
-        let l = 0;
-        let r = list.length - 1;
+    const list = listenerData._listeners;
+    const listLength = list.length;
+    if (listLength === 0) {
+      return -1;
+    }
 
-        while (l <= r) {
-          const m = (l + r) >>> 1;
-          list[m]._priority < priority ? (l = m + 1) : (r = m - 1);
-        }
-        const start = l;
+    if (isListenerOf(list[0], callback, context)) {
+      return 0;
+    }
 
-        r = list.length - 1;
-        while (l <= r) {
-          const m = (l + r) >>> 1;
-          list[m]._priority <= priority ? (l = m + 1) : (r = m - 1);
-        }
-        const end = r;
+    const lastIndex = listLength - 1;
+    if (isListenerOf(list[lastIndex], callback, context)) {
+      return lastIndex;
+    }
 
-        for (let i = start; i <= end; i++) {
-          if (list[i]._callback === callback && list[i]._context === context) {
-            list.splice(i, 1);
-            return this;
-          }
+    const smallLength = 10;
+    if (
+      listLength < smallLength ||
+      list[0]._priority === list[lastIndex]._priority
+    ) {
+      for (let i = 1; i < lastIndex; i++) {
+        if (isListenerOf(list[i], callback, context)) {
+          return i;
         }
       }
+      return -1;
     }
 
-    return this;
+    const priority = listenerData._index.getPriority(callback, context);
+    if (priority === undefined) {
+      return -1;
+    }
+
+    let l = 0;
+    let r = list.length - 1;
+
+    while (l <= r) {
+      const m = (l + r) >>> 1;
+      list[m]._priority < priority ? (l = m + 1) : (r = m - 1);
+    }
+    const start = l;
+
+    r = list.length - 1;
+    while (l <= r) {
+      const m = (l + r) >>> 1;
+      list[m]._priority <= priority ? (l = m + 1) : (r = m - 1);
+    }
+    const end = r;
+
+    for (let i = start; i <= end; i++) {
+      if (isListenerOf(list[i], callback, context)) {
+        return i;
+      }
+    }
+    return -1;
   }
 
   /**
-   * Emits an event, triggering all registered listeners in priority order.
-   *
-   * Listeners are called in priority order (lower priority values first).
-   * One-time listeners are automatically removed after execution.
+   * Removes a listener from the index and releases resources bound to it.
+   * Must be called for every listener taken out of a listener list.
    *
-   * This method is protected so only the extending class can emit events internally.
-   *
-   * @param type - The event type (string or number) to emit
-   * @param args - Arguments to pass to the listeners
-   * @returns Boolean indicating if the event had listeners
+   * @param key - The key of the listener list the listener belongs to
+   * @param listenerData - The listener data the listener belongs to
+   * @param listener - The removed listener
    *
-   * @protected
+   * @private
    */
-  protected emit(type: string | number, ...args: unknown[]): boolean {
-    const listenerData = this.listeners.get(type);
-    if (listenerData === undefined) {
-      return false;
+  private detachListener(
+    key: ListenerKey,
+    listenerData: ListenerData,
+    listener: Listener,
+  ): void {
+    const context = getListenerContext(listener);
+    if (listener._contextRef !== undefined) {
+      this.weakRegistry?.unregister(listener);
     }
 
-    if (listenerData._listeners.length === 0) {
-      return false;
+    // A collected weak context has already left the weakly keyed index
+    if (context !== undefined || listener._contextRef === undefined) {
+      listenerData._index.remove(listener._callback, context);
     }
 
-    // Create a snapshot of listeners to iterate safely
-    // This prevents issues if listeners are added/removed during emission
-    if (listenerData._isLocked) {
-      // Already locked, create a new copy
-      listenerData._listeners = listenerData._listeners.slice();
-    } else {
-      // Lock the current array to prevent mutations
-      listenerData._isLocked = true;
+    // Forget the list once the context has no listeners left in it
+    if (context !== undefined && !listenerData._index.hasContext(context)) {
+      const keys = this.contextKeys.get(context);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.contextKeys.delete(context);
+      }
     }
 
-    const snapshot = listenerData._listeners;
+    if (listener._unbindSignal !== undefined) {
+      listener._unbindSignal();
+      listener._unbindSignal = undefined;
+    }
+  }
 
-    // Execute all listeners in the snapshot
-    let hasItemsToDelete = false;
-    for (let i = 0; i < snapshot.length; i++) {
-      const listener = snapshot[i];
-      listener._callback.apply(listener._context, args);
+  /**
+   * Calls the lifecycle hooks for a listener added to a listener list.
+   * Catch-all, pattern and capture listeners are skipped.
+   *
+   * @param key - The key of the listener list
+   * @param listener - The added listener
+   * @param isFirst - Whether the list was created for the listener
+   *
+   * @private
+   */
+  private notifyAdded(
+    key: ListenerKey,
+    listener: Listener,
+    isFirst: boolean,
+  ): void {
+    if (typeof key === "symbol") {
+      return;
+    }
 
-      // Mark one-time listeners for removal
-      if (listener._once) {
-        hasItemsToDelete = true;
-        listener._called = true;
-      }
+    this.listenerAdded(
+      key as EventType<Events>,
+      listener._callback,
+      getListenerContext(listener),
+      listener._priority,
+    );
+    if (isFirst) {
+      this.firstListenerAdded(key as EventType<Events>);
     }
+  }
 
-    // Check if the event type still exists (could be removed by a listener)
-    const actualListenerData = this.listeners.get(type);
-    if (actualListenerData === undefined) {
-      return true;
+  /**
+   * Calls the `listenerRemoved` hook for a listener taken out of a listener list.
+   * Catch-all, pattern and capture listeners are skipped.
+   *
+   * @param key - The key of the listener list
+   * @param listener - The removed listener
+   *
+   * @private
+   */
+  private notifyRemoved(key: ListenerKey, listener: Listener): void {
+    if (typeof key !== "symbol") {
+      this.listenerRemoved(
+        key as EventType<Events>,
+        listener._callback,
+        getListenerContext(listener),
+        listener._priority,
+      );
     }
+  }
 
-    // Release the lock if we're working with the original array
-    if (actualListenerData._listeners === snapshot) {
-      actualListenerData._isLocked = false;
+  /**
+   * Calls the `lastListenerRemoved` hook if an event type has no listeners left.
+   *
+   * @param key - The key of the listener list listeners were removed from
+   *
+   * @private
+   */
+  private notifyIfEmpty(key: ListenerKey): void {
+    if (typeof key !== "symbol" && !this.listeners.has(key)) {
+      this.lastListenerRemoved(key as EventType<Events>);
     }
+  }
 
-    const list = actualListenerData._listeners;
+  /**
+   * Records that a context has listeners in a listener list, for `offContext`.
+   * Listeners without a context cost nothing.
+   *
+   * @param key - The key of the listener list
+   * @param context - The context of the added listener
+   *
+   * @private
+   */
+  private trackContext(key: ListenerKey, context: object): void {
+    const keys = this.contextKeys.get(context);
+    if (keys === undefined) {
+      this.contextKeys.set(context, new Set([key]));
+    } else {
+      keys.add(key);
+    }
+  }
 
-    // Remove one-time listeners that were called
-    if (hasItemsToDelete) {
-      let w = 0; // Write index for in-place array compaction
-      for (let r = 0; r < list.length; r++) {
-        const listener = list[r];
-        if (!listener._called) {
-          // Keep this listener - copy to write position
-          list[w++] = listener;
-        } else {
-          // Remove called once-listener from index
-          actualListenerData._index.remove(
-            listener._callback,
-            listener._context,
-          );
-        }
+  /**
+   * Removes a listener when the given signal is aborted.
+   *
+   * @param type - The event type the listener is registered for
+   * @param listener - The registered listener
+   * @param signal - The AbortSignal to observe
+   *
+   * @private
+   */
+  private bindSignal(
+    type: ListenerKey,
+    listener: Listener,
+    signal: AbortSignal,
+  ): void {
+    const onAbort = (): void => {
+      const context = getListenerContext(listener);
+      // A weak listener whose context is gone is left to the finalization registry
+      if (context !== undefined || listener._contextRef === undefined) {
+        this.removeListener(type, listener._callback, context);
       }
+    };
 
-      // Clean up the map entry if no listeners remain
-      if (w === 0) {
-        this.listeners.delete(type);
-      } else {
-        // Trim array to new size
-        list.length = w;
+    signal.addEventListener("abort", onAbort, { once: true });
+    listener._unbindSignal = (): void => {
+      signal.removeEventListener("abort", onAbort);
+    };
+  }
+
+  /**
+   * Adds a new event listener configured by a `ListenerOptions` object.
+   *
+   * @param type - The event type (string or number) to listen for
+   * @param callback - The callback function
+   * @param options - The listener options
+   * @returns The added listener, or `undefined` if none was added
+   *
+   * @throws RangeError when `times` is not a positive integer
+   * @throws Error when attempting to add a duplicate listener under `DuplicatePolicy.THROW`
+   *
+   * @private
+   */
+  private addListenerWithOptions(
+    type: string | number,
+    callback: Callback,
+    options: ListenerOptions<never>,
+  ): Listener | undefined {
+    let times = options.once === true ? 1 : 0;
+    if (options.times !== undefined) {
+      if (!Number.isInteger(options.times) || options.times <= 0) {
+        throw new RangeError("Listener times must be a positive integer");
       }
+      times = options.times;
     }
 
-    return true;
+    return this.addListener(
+      type,
+      times,
+      options.priority ?? 0,
+      callback,
+      options.context,
+      options.signal,
+      options.filter,
+      options.duplicate,
+      options.weak,
+    );
   }
 
   /**
    * Adds a new event listener with the specified configuration.
    *
    * Uses binary search for priority-based insertion.
-   * Prevents duplicate listeners by checking the listener index.
+   * Detects duplicate listeners by checking the listener index.
    *
    * @param type - The event type (string or number) to listen for
-   * @param once - Whether the listener should be removed after first execution
+   * @param times - Number of executions before the listener is removed, or 0 for no limit
    * @param priority - Priority value for the listener (lower = higher priority)
    * @param callback - The callback function
    * @param context - Optional context object for the callback
+   * @param signal - Optional AbortSignal that removes the listener when aborted
+   * @param filter - Optional predicate the emitted arguments must pass for the callback to run
+   * @param duplicate - What happens if the callback and context are already registered
+   * @param weak - Whether the listener holds its context weakly
+   * @returns The added listener, or `undefined` if none was added
    *
-   * @throws Error when attempting to add a duplicate listener
+   * @throws Error when attempting to add a duplicate listener under `DuplicatePolicy.THROW`
+   * @throws Error when the emitter is destroyed under `DestroyPolicy.THROW`
    *
    * @private
    */
   private addListener(
-    type: string | number,
-    once: boolean,
+    type: ListenerKey,
+    times: number,
     priority: number,
     callback: Callback,
     context?: object,
-  ): void {
+    signal?: AbortSignal,
+    filter?: Callback,
+    duplicate = this.duplicatePolicy,
+    weak = this.weakContexts,
+  ): Listener | undefined {
+    // Like addEventListener, an already aborted signal adds nothing
+    if (this.ignoreWhenDestroyed() || signal?.aborted === true) {
+      return undefined;
+    }
+
     let listenerData = this.listeners.get(type);
 
+    // Apply the duplicate policy to an existing listener with the same callback and context
+    if (listenerData?._index.has(callback, context) === true) {
+      if (
+        !this.resolveDuplicate(type, listenerData, callback, context, duplicate)
+      ) {
+        return undefined;
+      }
+      listenerData = this.listeners.get(type);
+    }
+
+    const isWeak = weak && context !== undefined;
+    const listener: Listener = {
+      _callback: callback,
+      _context: isWeak ? undefined : context,
+      _contextRef: isWeak ? new WeakRef(context) : undefined,
+      _priority: priority,
+      _isGuarded: times > 0 || filter !== undefined || isWeak,
+      _remaining: times,
+      _called: false,
+      _references: 1,
+      _filter: filter,
+    };
+
+    if (isWeak) {
+      this.weakRegistry ??= new FinalizationRegistry(([key, collected]) => {
+        this.pruneWeakListener(key, collected);
+      });
+      this.weakRegistry.register(context, [type, listener], listener);
+    }
+
     // First listener for this event type
     if (listenerData === undefined) {
       this.listeners.set(type, {
-        _listeners: [
-          {
-            _callback: callback,
-            _context: context,
-            _priority: priority,
-            _once: once,
-            _called: false,
-          },
-        ],
+        _listeners: [listener],
         _isLocked: false,
         _index: new ListenerIndex(callback, context, priority),
       });
-      return;
+      if (context !== undefined) {
+        this.trackContext(type, context);
+      }
+      if (signal !== undefined) {
+        this.bindSignal(type, listener, signal);
+      }
+      this.notifyAdded(type, listener, true);
+      return listener;
     }
 
-    // Check for duplicate listeners
-    if (listenerData._index.has(callback, context)) {
-      throw new Error("Event listener already exists");
-    }
     listenerData._index.insert(callback, context, priority);
+    if (context !== undefined) {
+      this.trackContext(type, context);
+    }
 
-    const listener: Listener = {
-      _callback: callback,
-      _context: context,
-      _priority: priority,
-      _once: once,
-      _called: false,
-    };
+    if (signal !== undefined) {
+      this.bindSignal(type, listener, signal);
+    }
 
     // If the list is locked during emit, create a copy to avoid mutation during iteration
     if (listenerData._isLocked) {
@@ -405,36 +3113,100 @@ export abstract class Eventail {
       listenerData._listeners = listenerData._listeners.slice();
     }
 
-    // Insert listener in priority order using optimized insertion
-    {
-      const list = listenerData._listeners;
-      const priority = listener._priority;
+    this.insertListener(listenerData._listeners, listener);
+    this.notifyAdded(type, listener, false);
+    return listener;
+  }
 
-      // Fast path: append if priority is lowest (most common case)
-      if (list.length === 0 || list[list.length - 1]._priority <= priority) {
-        list.push(listener);
-        return;
+  /**
+   * Handles the registration of a callback and context that already have a
+   * listener, according to a duplicate policy.
+   *
+   * @param type - The key of the listener list
+   * @param listenerData - The listener data holding the existing listener
+   * @param callback - The callback of the registration
+   * @param context - The context of the registration
+   * @param duplicate - The duplicate policy to apply
+   * @returns `true` if the new listener should be added
+   *
+   * @throws Error under `DuplicatePolicy.THROW`
+   *
+   * @private
+   */
+  private resolveDuplicate(
+    type: ListenerKey,
+    listenerData: ListenerData,
+    callback: Callback,
+    context: object | undefined,
+    duplicate: DuplicatePolicy,
+  ): boolean {
+    switch (duplicate) {
+      case DuplicatePolicy.THROW:
+        throw new Error("Event listener already exists");
+
+      case DuplicatePolicy.IGNORE:
+        return false;
+
+      case DuplicatePolicy.REPLACE: {
+        // Remove the replaced listener but keep the list, so replacing the only
+        // listener of a type does not report it as emptied and added again
+        if (listenerData._isLocked) {
+          listenerData._isLocked = false;
+          listenerData._listeners = listenerData._listeners.slice();
+        }
+
+        const list = listenerData._listeners;
+        const index = this.findListener(listenerData, callback, context);
+        const listener = list[index];
+        this.detachListener(type, listenerData, listener);
+        list.splice(index, 1);
+        this.notifyRemoved(type, listener);
+        return true;
       }
 
-      // Fast path: prepend if priority is highest
-      if (list[0]._priority >= priority) {
-        list.unshift(listener);
-        return;
+      case DuplicatePolicy.COUNT: {
+        const index = this.findListener(listenerData, callback, context);
+        listenerData._listeners[index]._references++;
+        return false;
       }
+    }
+  }
 
-      {
-        // Binary search to find insertion point
-        let l = 0;
-        let r = list.length;
+  /**
+   * Inserts a listener into a listener list in priority order.
+   *
+   * Uses binary search for priority-based insertion.
+   *
+   * @param list - The listener list, which must not be locked
+   * @param listener - The listener to insert
+   *
+   * @private
+   */
+  private insertListener(list: Listener[], listener: Listener): void {
+    const priority = listener._priority;
 
-        while (l < r) {
-          const m = (l + r) >>> 1; // Unsigned right shift for fast division by 2
-          list[m]._priority < priority ? (l = m + 1) : (r = m);
-        }
+    // Fast path: append if priority is lowest (most common case)
+    if (list.length === 0 || list[list.length - 1]._priority <= priority) {
+      list.push(listener);
+      return;
+    }
 
-        // Insert at the found position
-        list.splice(l, 0, listener);
-      }
+    // Fast path: prepend if priority is highest
+    if (list[0]._priority >= priority) {
+      list.unshift(listener);
+      return;
     }
+
+    // Binary search to find insertion point
+    let l = 0;
+    let r = list.length;
+
+    while (l < r) {
+      const m = (l + r) >>> 1; // Unsigned right shift for fast division by 2
+      list[m]._priority < priority ? (l = m + 1) : (r = m);
+    }
+
+    // Insert at the found position
+    list.splice(l, 0, listener);
   }
 }
@@ -122,6 +122,34 @@ export class ListenerIndex {
     return callbacks.has(callback);
   }
 
+  /**
+   * Checks if any callback is registered with a context.
+   *
+   * @param context - The context object to check
+   * @returns `true` if at least one callback is associated with the context
+   *
+   * @internal
+   */
+  public hasContext(context: object): boolean {
+    return this.contextMap.has(context);
+  }
+
+  /**
+   * Retrieves the callbacks registered with a context.
+   *
+   * @param context - The context object to look up
+   * @returns The callbacks associated with the context, in insertion order
+   *
+   * @internal
+   */
+  public getCallbacks(context: object): Callback[] {
+    const callbacks = this.contextMap.get(context);
+    if (callbacks === undefined) {
+      return [];
+    }
+    return Array.from(callbacks.keys());
+  }
+
   /**
    * Retrieves the priority value for a callback-context pair.
    *
@@ -0,0 +1,71 @@
+/**
+ * Handle for a listener registered with `subscribe` or `subscribeOnce`.
+ *
+ * Removes the listener when `unsubscribe()` is called or when the handle is
+ * disposed, which makes it usable with `using` declarations.
+ *
+ * @example
+ * ```ts
+ * const subscriptions = [
+ *   player.subscribe('healthChanged', onHealthChanged),
+ *   player.subscribe('died', onDied),
+ * ];
+ * // Later
+ * subscriptions.forEach((subscription) => subscription.unsubscribe());
+ *
+ * {
+ *   using subscription = player.subscribe('leveledUp', onLeveledUp);
+ *   // Listener is removed when the block exits
+ * }
+ * ```
+ *
+ * @public
+ */
+export class Subscription {
+  /** Removes the listener from its emitter */
+  private remove?: () => void;
+
+  /**
+   * Creates a new Subscription instance.
+   *
+   * @param remove - Function removing the subscribed listener, or `undefined`
+   * for a handle that is inactive from the start
+   *
+   * @internal
+   */
+  constructor(remove?: () => void) {
+    this.remove = remove;
+  }
+
+  /**
+   * Whether `unsubscribe()` has not been called yet.
+   *
+   * @public
+   */
+  public get isActive(): boolean {
+    return this.remove !== undefined;
+  }
+
+  /**
+   * Removes the listener from the emitter.
+   * Calling it more than once has no effect.
+   *
+   * @public
+   */
+  public unsubscribe(): void {
+    const remove = this.remove;
+    if (remove !== undefined) {
+      this.remove = undefined;
+      remove();
+    }
+  }
+
+  /**
+   * Removes the listener from the emitter, see `unsubscribe()`.
+   *
+   * @public
+   */
+  public [Symbol.dispose](): void {
+    this.unsubscribe();
+  }
+}
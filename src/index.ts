@@ -1 +1,5 @@
+export * from "./BubblingEvent";
+export * from "./CancelableEvent";
 export * from "./Eventail";
+export * from "./EventStream";
+export * from "./Subscription";
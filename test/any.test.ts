@@ -0,0 +1,304 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  ErrorPolicy,
+  Eventail,
+  STOP_PROPAGATION,
+  type CollectedValue,
+  type EventailOptions,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitConsumable(type: string | number, ...args: unknown[]): boolean {
+    return super.emitConsumable(type, ...args);
+  }
+
+  public emitCollect(
+    type: string | number,
+    ...args: unknown[]
+  ): CollectedValue[] {
+    return super.emitCollect(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+
+  public emitPipeline(type: string | number, ...args: unknown[]): unknown {
+    return super.emitPipeline(type, ...args);
+  }
+}
+
+// ============================================================================
+// Catch-all Listener Tests
+// ============================================================================
+
+test("should call catch-all listeners with the type and arguments", () => {
+  const emitter = new TestEmitter();
+  const received: unknown[][] = [];
+
+  emitter.onAny((...args: unknown[]) => received.push(args));
+  emitter.on("damaged", () => {});
+
+  emitter.emit("damaged", 10, "fire");
+  emitter.emit(42);
+
+  assert.equal(received, [["damaged", 10, "fire"], [42]]);
+});
+
+test("should report events with only catch-all listeners as delivered", () => {
+  const emitter = new TestEmitter();
+  let called = false;
+
+  emitter.onAny(() => {
+    called = true;
+  });
+
+  assert.is(emitter.emit("unknown"), true);
+  assert.is(called, true);
+});
+
+test("should call catch-all listeners before the type listeners", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("test", () => calls.push("type"), undefined, -100);
+  emitter.onAny(() => calls.push("any"));
+
+  emitter.emit("test");
+
+  assert.equal(calls, ["any", "type"]);
+});
+
+test("should call catch-all listeners in priority order with context", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const context = { name: "logger" };
+
+  emitter.onAny(() => calls.push("low"), undefined, 10);
+  emitter.onAny(
+    function (this: typeof context) {
+      calls.push(this.name);
+    },
+    context,
+    -10,
+  );
+  emitter.onAny(() => calls.push("default"));
+
+  emitter.emit("test");
+
+  assert.equal(calls, ["logger", "default", "low"]);
+});
+
+test("should not let a type listener stop catch-all listeners", () => {
+  const emitter = new TestEmitter();
+  let anyCalls = 0;
+
+  emitter.on("test", () => STOP_PROPAGATION);
+  emitter.onAny(() => {
+    anyCalls++;
+  });
+
+  assert.is(emitter.emitConsumable("test"), true);
+  assert.is(anyCalls, 1);
+});
+
+test("should not consume the event when a catch-all listener stops propagation", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.onAny(
+    () => {
+      calls.push("first");
+      return STOP_PROPAGATION;
+    },
+    undefined,
+    -1,
+  );
+  emitter.onAny(() => calls.push("second"));
+  emitter.on("test", () => calls.push("type"));
+
+  assert.is(emitter.emitConsumable("test"), false);
+  assert.equal(calls, ["first", "type"]);
+});
+
+test("should not collect catch-all listener return values", () => {
+  const emitter = new TestEmitter();
+
+  emitter.onAny(() => "any");
+  emitter.on("test", () => "type");
+
+  assert.equal(emitter.emitCollect("test"), [{ value: "type", priority: 0 }]);
+});
+
+test("should call catch-all listeners from other emission modes", async () => {
+  const emitter = new TestEmitter();
+  const received: unknown[][] = [];
+
+  emitter.onAny((...args: unknown[]) => received.push(args));
+  emitter.on("damage", (value: number) => value * 2);
+
+  assert.is(emitter.emitPipeline("damage", 5), 10);
+  assert.is(await emitter.emitAsync("loaded"), true);
+
+  assert.equal(received, [["damage", 5], ["loaded"]]);
+});
+
+test("should remove a catch-all listener with offAny", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const context = {};
+  const callback = (): number => calls.push("removed");
+
+  emitter.onAny(callback, context);
+  emitter.onAny(callback);
+  emitter.offAny(callback, context);
+
+  emitter.emit("test");
+
+  assert.equal(calls, ["removed"]);
+});
+
+test("should remove all catch-all listeners with offAny", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+
+  emitter.onAny(() => calls++);
+  emitter.onAny(() => calls++);
+  emitter.offAny();
+
+  assert.is(emitter.emit("test"), false);
+  assert.is(calls, 0);
+});
+
+test("should keep catch-all listeners separate from type listeners", () => {
+  const emitter = new TestEmitter();
+  let anyCalls = 0;
+  const callback = (): void => {
+    anyCalls++;
+  };
+
+  emitter.onAny(callback);
+  emitter.on("test", callback);
+  emitter.off("test");
+
+  emitter.emit("test");
+
+  assert.is(anyCalls, 1);
+});
+
+test("should throw for duplicate catch-all listeners", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.onAny(callback);
+
+  assert.throws(() => {
+    emitter.onAny(callback);
+  }, /Event listener already exists/);
+});
+
+test("should allow removing a catch-all listener while emitting", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+
+  const callback = (): void => {
+    calls++;
+    emitter.offAny(callback);
+  };
+  emitter.onAny(callback);
+
+  emitter.emit("first");
+  emitter.emit("second");
+
+  assert.is(calls, 1);
+});
+
+test("should report catch-all listener errors for the emitted type", () => {
+  const errors: [unknown, string | number][] = [];
+  const emitter = new TestEmitter({
+    errorPolicy: ErrorPolicy.ROUTE,
+    onError: (error, type): void => {
+      errors.push([error, type]);
+    },
+  });
+  const error = new Error("logger failed");
+  let typeCalled = false;
+
+  emitter.onAny(() => {
+    throw error;
+  });
+  emitter.on("test", () => {
+    typeCalled = true;
+  });
+
+  emitter.emit("test");
+
+  assert.equal(errors, [[error, "test"]]);
+  assert.is(typeCalled, true);
+});
+
+test("should aggregate catch-all listener errors for the emitted type", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.AGGREGATE });
+
+  emitter.onAny(() => {
+    throw new Error("failed");
+  });
+
+  try {
+    emitter.emit(7);
+    assert.unreachable("should have thrown");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+    assert.match((error as AggregateError).message, /event "7"/);
+  }
+});
+
+test("should aggregate catch-all errors with the type listener errors", async () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.AGGREGATE });
+  const calls: string[] = [];
+
+  emitter.onAny(() => {
+    throw new Error("any");
+  });
+  emitter.on("test", () => {
+    calls.push("test");
+    throw new Error("test");
+  });
+
+  try {
+    emitter.emit("test");
+    assert.unreachable("should have thrown");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+    const messages = (error as AggregateError).errors.map(
+      (item: Error) => item.message,
+    );
+    assert.equal(messages, ["any", "test"]);
+  }
+
+  try {
+    await emitter.emitAsync("test");
+    assert.unreachable("should have thrown");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+    assert.is((error as AggregateError).errors.length, 2);
+  }
+
+  assert.throws(() => emitter.emitPipeline("other", 1), /event "other"/);
+  assert.equal(calls, ["test", "test"]);
+});
+
+test.run();
@@ -0,0 +1,154 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitAsync(type: string | number, ...args: unknown[]): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+}
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Sequential Async Emission Tests
+// ============================================================================
+
+test("should resolve false when event has no listeners", async () => {
+  const emitter = new TestEmitter();
+  assert.is(await emitter.emitAsync("test"), false);
+});
+
+test("should await listeners sequentially in priority order", async () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on(
+    "test",
+    async () => {
+      calls.push("low:start");
+      await delay(1);
+      calls.push("low:end");
+    },
+    undefined,
+    10,
+  );
+  emitter.on(
+    "test",
+    async () => {
+      calls.push("high:start");
+      await delay(5);
+      calls.push("high:end");
+    },
+    undefined,
+    -10,
+  );
+  emitter.on("test", () => calls.push("sync"));
+
+  const result = await emitter.emitAsync("test");
+
+  assert.is(result, true);
+  assert.equal(calls, [
+    "high:start",
+    "high:end",
+    "sync",
+    "low:start",
+    "low:end",
+  ]);
+});
+
+test("should pass arguments and context to async listeners", async () => {
+  const emitter = new TestEmitter();
+  const context = { received: [] as unknown[] };
+
+  emitter.on(
+    "test",
+    async function (this: typeof context, a: number, b: string) {
+      await delay(1);
+      this.received.push(a, b);
+    },
+    context,
+  );
+
+  await emitter.emitAsync("test", 1, "two");
+  assert.equal(context.received, [1, "two"]);
+});
+
+test("should remove once listeners after async emission", async () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.once("test", async () => {
+    await delay(1);
+    callCount++;
+  });
+
+  assert.is(await emitter.emitAsync("test"), true);
+  assert.is(await emitter.emitAsync("test"), false);
+  assert.is(callCount, 1);
+});
+
+test("should not call once listeners twice for overlapping emissions", async () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.once("test", async () => {
+    callCount++;
+    await delay(5);
+  });
+
+  await Promise.all([emitter.emitAsync("test"), emitter.emitAsync("test")]);
+  assert.is(callCount, 1);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should keep iterating the snapshot when listeners change mid-chain", async () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  const second = (): number => calls.push("second");
+  emitter.on("test", async () => {
+    calls.push("first");
+    await delay(1);
+    emitter.off("test", second);
+    emitter.on("test", () => calls.push("added"));
+  });
+  emitter.on("test", second);
+
+  await emitter.emitAsync("test");
+  assert.equal(calls, ["first", "second"]);
+
+  calls.length = 0;
+  emitter.emit("test");
+  assert.equal(calls, ["first", "added"]);
+});
+
+test("should reject when a listener rejects and skip the rest", async () => {
+  const emitter = new TestEmitter();
+  let laterCalled = false;
+
+  emitter.on("test", async () => {
+    await delay(1);
+    throw new Error("boom");
+  });
+  emitter.on("test", () => {
+    laterCalled = true;
+  });
+
+  try {
+    await emitter.emitAsync("test");
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.instance(error, Error);
+    assert.is((error as Error).message, "boom");
+  }
+  assert.is(laterCalled, false);
+});
+
+test.run();
@@ -0,0 +1,295 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { BubblingEvent, EventPhase } from "../src/BubblingEvent.js";
+import {
+  ErrorPolicy,
+  Eventail,
+  STOP_PROPAGATION,
+  type AnyEventail,
+  type EventailOptions,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class Node extends Eventail {
+  constructor(
+    public readonly name: string,
+    parent?: AnyEventail,
+    options?: EventailOptions,
+  ) {
+    super(options);
+    this.setEventParent(parent);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitBubbling(type: string | number, ...args: unknown[]): boolean {
+    return super.emitBubbling(type, ...args);
+  }
+}
+
+const createTree = (): { root: Node; parent: Node; child: Node } => {
+  const root = new Node("root");
+  const parent = new Node("parent", root);
+  const child = new Node("child", parent);
+  return { root, parent, child };
+};
+
+// ============================================================================
+// Bubbling Emission Tests
+// ============================================================================
+
+test("should link emitters with setEventParent", () => {
+  const { root, parent, child } = createTree();
+
+  assert.is(child.eventParent, parent);
+  assert.is(parent.eventParent, root);
+  assert.is(root.eventParent, undefined);
+
+  child.setEventParent(undefined);
+  assert.is(child.eventParent, undefined);
+});
+
+test("should reject parent links that create a cycle", () => {
+  const { root, child } = createTree();
+
+  assert.throws(() => root.setEventParent(child), /would create a cycle/);
+  assert.throws(() => root.setEventParent(root), /would create a cycle/);
+  assert.is(root.eventParent, undefined);
+});
+
+test("should call capture, target and bubble listeners in order", () => {
+  const { root, parent, child } = createTree();
+  const calls: string[] = [];
+
+  for (const node of [root, parent, child]) {
+    node.onCapture("click", () => calls.push(`${node.name} capture`));
+    node.on("click", () => calls.push(`${node.name} bubble`));
+  }
+
+  assert.is(child.emitBubbling("click"), false);
+  assert.equal(calls, [
+    "root capture",
+    "parent capture",
+    "child capture",
+    "child bubble",
+    "parent bubble",
+    "root bubble",
+  ]);
+});
+
+test("should expose target, current target and phase", () => {
+  const { root, parent, child } = createTree();
+  const seen: [string, string, EventPhase][] = [];
+
+  const record = (event: BubblingEvent): void => {
+    seen.push([
+      (event.target as Node).name,
+      (event.currentTarget as Node).name,
+      event.eventPhase,
+    ]);
+  };
+  root.onCapture("click", record);
+  child.onCapture("click", record);
+  child.on("click", record);
+  parent.on("click", record);
+
+  const event = new BubblingEvent();
+  child.emitBubbling("click", event);
+
+  assert.equal(seen, [
+    ["child", "root", EventPhase.CAPTURING],
+    ["child", "child", EventPhase.AT_TARGET],
+    ["child", "child", EventPhase.AT_TARGET],
+    ["child", "parent", EventPhase.BUBBLING],
+  ]);
+  assert.is(event.target, child);
+  assert.is(event.currentTarget, undefined);
+  assert.is(event.eventPhase, EventPhase.NONE);
+});
+
+test("should stop at the current emitter after stopPropagation", () => {
+  const { root, parent, child } = createTree();
+  const calls: string[] = [];
+
+  parent.on("click", (event: BubblingEvent) => {
+    calls.push("parent first");
+    event.stopPropagation();
+  });
+  parent.on("click", () => calls.push("parent second"), undefined, 1);
+  root.on("click", () => calls.push("root"));
+
+  const event = new BubblingEvent();
+  assert.is(child.emitBubbling("click", event), true);
+  assert.is(event.propagationStopped, true);
+  assert.equal(calls, ["parent first", "parent second"]);
+});
+
+test("should stop during the capture phase", () => {
+  const { root, child } = createTree();
+  const calls: string[] = [];
+
+  root.onCapture("click", (event: BubblingEvent) => {
+    calls.push("root capture");
+    event.stopPropagation();
+  });
+  child.on("click", () => calls.push("child"));
+
+  assert.is(child.emitBubbling("click", new BubblingEvent()), true);
+  assert.equal(calls, ["root capture"]);
+});
+
+test("should call the regular target listeners after stopPropagation in capture", () => {
+  const { parent, child } = createTree();
+  const calls: string[] = [];
+
+  child.onCapture("click", (event: BubblingEvent) => {
+    calls.push("child capture");
+    event.stopPropagation();
+  });
+  child.on("click", () => calls.push("child"));
+  parent.on("click", () => calls.push("parent"));
+
+  assert.is(child.emitBubbling("click", new BubblingEvent()), true);
+  assert.equal(calls, ["child capture", "child"]);
+});
+
+test("should end at the target capture when a listener returns STOP_PROPAGATION", () => {
+  const { child } = createTree();
+  const calls: string[] = [];
+
+  child.onCapture("click", () => STOP_PROPAGATION);
+  child.on("click", () => calls.push("child"));
+
+  assert.is(child.emitBubbling("click"), true);
+  assert.equal(calls, []);
+});
+
+test("should stop right away when a listener returns STOP_PROPAGATION", () => {
+  const { root, child } = createTree();
+  const calls: string[] = [];
+
+  child.on("click", () => STOP_PROPAGATION);
+  child.on("click", () => calls.push("child"), undefined, 1);
+  root.on("click", () => calls.push("root"));
+
+  assert.is(child.emitBubbling("click"), true);
+  assert.equal(calls, []);
+});
+
+test("should not call capture listeners from emit", () => {
+  const { parent, child } = createTree();
+  const calls: string[] = [];
+
+  child.onCapture("click", () => calls.push("capture"));
+  child.on("click", () => calls.push("regular"));
+  parent.on("click", () => calls.push("parent"));
+
+  child.emit("click");
+
+  assert.equal(calls, ["regular"]);
+});
+
+test("should remove capture listeners with offCapture", () => {
+  const { root, child } = createTree();
+  const calls: string[] = [];
+  const callback = (): number => calls.push("removed");
+
+  root.onCapture("click", callback);
+  root.onCapture("click", () => calls.push("kept"));
+  root.offCapture("click", callback);
+  child.emitBubbling("click");
+
+  root.offCapture("click");
+  child.emitBubbling("click");
+
+  assert.equal(calls, ["kept"]);
+});
+
+test("should allow the same callback as capture and regular listener", () => {
+  const { child } = createTree();
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  child.onCapture("click", callback);
+  child.on("click", callback);
+  child.emitBubbling("click");
+
+  assert.is(calls, 2);
+});
+
+test("should apply the error policy of each emitter", () => {
+  const errors: string[] = [];
+  const root = new Node("root", undefined, {
+    errorPolicy: ErrorPolicy.ROUTE,
+    onError: (error): void => {
+      errors.push((error as Error).message);
+    },
+  });
+  const child = new Node("child", root);
+  let childCalled = false;
+
+  root.onCapture("click", () => {
+    throw new Error("capture failed");
+  });
+  child.on("click", () => {
+    childCalled = true;
+  });
+
+  child.emitBubbling("click");
+  assert.equal(errors, ["capture failed"]);
+  assert.is(childCalled, true);
+
+  child.on("click", () => {
+    throw new Error("child failed");
+  });
+  assert.throws(() => child.emitBubbling("click"), /child failed/);
+});
+
+test("should call the whole chain before throwing aggregated errors", () => {
+  const options = { errorPolicy: ErrorPolicy.AGGREGATE };
+  const root = new Node("root", undefined, options);
+  const parent = new Node("parent", root, options);
+  const child = new Node("child", parent, options);
+  const calls: string[] = [];
+
+  root.onCapture("click", () => {
+    throw new Error("capture failed");
+  });
+  child.onAny(() => calls.push("child any"));
+  child.on("click", () => calls.push("child"));
+  parent.on("click", () => {
+    throw new Error("parent failed");
+  });
+  root.on("click", () => calls.push("root"));
+
+  try {
+    child.emitBubbling("click");
+    assert.unreachable("should have thrown");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+    const messages = (error as AggregateError).errors.map(
+      (e) => (e as Error).message,
+    );
+    assert.equal(messages, ["capture failed", "parent failed"]);
+  }
+  assert.equal(calls, ["child any", "child", "root"]);
+});
+
+test("should reset the event when a listener throws", () => {
+  const { parent, child } = createTree();
+  const event = new BubblingEvent();
+
+  parent.on("click", () => {
+    throw new Error("failed");
+  });
+
+  assert.throws(() => child.emitBubbling("click", event), /failed/);
+  assert.is(event.eventPhase, EventPhase.NONE);
+  assert.is(event.currentTarget, undefined);
+});
+
+test.run();
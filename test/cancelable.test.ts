@@ -0,0 +1,128 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { CancelableEvent } from "../src/CancelableEvent.js";
+import { Eventail, STOP_PROPAGATION } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emitCancelable(type: string | number, ...args: unknown[]): boolean {
+    return super.emitCancelable(type, ...args);
+  }
+}
+
+// ============================================================================
+// Cancelable Emission Tests
+// ============================================================================
+
+test("should return true when event has no listeners", () => {
+  const emitter = new TestEmitter();
+  assert.is(emitter.emitCancelable("beforeClose"), true);
+  assert.is(emitter.emitCancelable("beforeClose", new CancelableEvent()), true);
+});
+
+test("should return true when no listener vetoes", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.on("beforeClose", () => {
+    callCount++;
+  });
+  emitter.on("beforeClose", () => {
+    callCount++;
+    return true;
+  });
+
+  assert.is(emitter.emitCancelable("beforeClose"), true);
+  assert.is(callCount, 2);
+});
+
+test("should veto when a listener returns false", () => {
+  const emitter = new TestEmitter();
+  let laterCalled = false;
+
+  emitter.on("beforeClose", () => false);
+  emitter.on(
+    "beforeClose",
+    () => {
+      laterCalled = true;
+    },
+    undefined,
+    1,
+  );
+
+  assert.is(emitter.emitCancelable("beforeClose"), false);
+  assert.is(laterCalled, true);
+});
+
+test("should veto when a listener calls preventDefault()", () => {
+  const emitter = new TestEmitter();
+  const event = new CancelableEvent();
+
+  emitter.on("beforeClose", (e: CancelableEvent) => {
+    e.preventDefault();
+  });
+
+  assert.is(emitter.emitCancelable("beforeClose", event), false);
+  assert.is(event.defaultPrevented, true);
+});
+
+test("should mark the event object as prevented on a false return", () => {
+  const emitter = new TestEmitter();
+  const event = new CancelableEvent();
+
+  emitter.on("beforeClose", () => false);
+
+  assert.is(emitter.emitCancelable("beforeClose", event), false);
+  assert.is(event.defaultPrevented, true);
+});
+
+test("should stop at the first veto when requested", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("beforeClose", (e: CancelableEvent) => {
+    calls.push("first");
+    e.preventDefault();
+  });
+  emitter.on("beforeClose", () => calls.push("second"), undefined, 1);
+
+  assert.is(
+    emitter.emitCancelable("beforeClose", new CancelableEvent(true)),
+    false,
+  );
+  assert.equal(calls, ["first"]);
+
+  calls.length = 0;
+  assert.is(emitter.emitCancelable("beforeClose", new CancelableEvent()), false);
+  assert.equal(calls, ["first", "second"]);
+});
+
+test("should not veto when a listener only stops propagation", () => {
+  const emitter = new TestEmitter();
+  let laterCalled = false;
+
+  emitter.on("beforeClose", () => STOP_PROPAGATION);
+  emitter.on(
+    "beforeClose",
+    () => {
+      laterCalled = true;
+      return false;
+    },
+    undefined,
+    1,
+  );
+
+  assert.is(emitter.emitCancelable("beforeClose"), true);
+  assert.is(laterCalled, false);
+});
+
+test("should remove once listeners after cancelable emission", () => {
+  const emitter = new TestEmitter();
+
+  emitter.once("beforeClose", () => false);
+
+  assert.is(emitter.emitCancelable("beforeClose"), false);
+  assert.is(emitter.emitCancelable("beforeClose"), true);
+});
+
+test.run();
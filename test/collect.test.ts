@@ -0,0 +1,79 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  Eventail,
+  STOP_PROPAGATION,
+  type CollectedValue,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emitCollect(
+    type: string | number,
+    ...args: unknown[]
+  ): CollectedValue[] {
+    return super.emitCollect(type, ...args);
+  }
+}
+
+// ============================================================================
+// Return Value Collection Tests
+// ============================================================================
+
+test("should return an empty list when event has no listeners", () => {
+  const emitter = new TestEmitter();
+  assert.equal(emitter.emitCollect("test"), []);
+});
+
+test("should collect returned values in priority order", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("menu", () => ["paste"], undefined, 10);
+  emitter.on("menu", () => ["copy", "cut"], undefined, -5);
+  emitter.on("menu", () => undefined);
+
+  assert.equal(emitter.emitCollect("menu"), [
+    { value: ["copy", "cut"], priority: -5 },
+    { value: undefined, priority: 0 },
+    { value: ["paste"], priority: 10 },
+  ]);
+});
+
+test("should pass arguments and context to collecting listeners", () => {
+  const emitter = new TestEmitter();
+  const validator = { min: 3 };
+
+  emitter.on(
+    "validate",
+    function (this: typeof validator, value: string) {
+      return value.length < this.min ? "too short" : null;
+    },
+    validator,
+  );
+
+  assert.equal(emitter.emitCollect("validate", "ab"), [
+    { value: "too short", priority: 0 },
+  ]);
+});
+
+test("should stop collecting when a listener stops propagation", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("test", () => "first");
+  emitter.on("test", () => STOP_PROPAGATION, undefined, 1);
+  emitter.on("test", () => "third", undefined, 2);
+
+  assert.equal(emitter.emitCollect("test"), [{ value: "first", priority: 0 }]);
+});
+
+test("should remove once listeners after collecting", () => {
+  const emitter = new TestEmitter();
+
+  emitter.once("test", () => 1);
+  emitter.on("test", () => 2);
+
+  assert.is(emitter.emitCollect("test").length, 2);
+  assert.equal(emitter.emitCollect("test"), [{ value: 2, priority: 0 }]);
+});
+
+test.run();
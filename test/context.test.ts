@@ -1,12 +1,17 @@
 import { test } from "uvu";
 import * as assert from "uvu/assert";
-import { Eventail } from "../src/Eventail.js";
+import { Eventail, type Callback } from "../src/Eventail.js";
+import { ListenerIndex } from "../src/ListenerIndex.js";
 
-// Helper class to access protected emit method
+// Helper class to access protected emit methods
 class TestEmitter extends Eventail {
   public emit(type: string | number, ...args: unknown[]): boolean {
     return super.emit(type, ...args);
   }
+
+  public emitBubbling(type: string | number, ...args: unknown[]): boolean {
+    return super.emitBubbling(type, ...args);
+  }
 }
 
 // ============================================================================
@@ -318,4 +323,115 @@ test("should handle context cleanup when listeners are removed", () => {
   });
 });
 
+test("should remove all listeners of a context with offContext", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  const other = {};
+  const calls: string[] = [];
+  const callback = (type: string): number => calls.push(type);
+
+  emitter.on("first", callback, widget);
+  emitter.on("first", () => calls.push("first other"), other);
+  emitter.once("second", callback, widget, 5);
+  emitter.on("second", callback);
+  emitter.onAny(() => calls.push("any"), widget);
+  emitter.onPattern("third.*", callback, widget);
+  emitter.onCapture("first", callback, widget);
+
+  emitter.offContext(widget);
+
+  emitter.emit("first", "first");
+  emitter.emit("second", "second");
+  emitter.emit("third.x", "third.x");
+  emitter.emitBubbling("first", "first");
+
+  assert.equal(calls, ["first other", "second", "first other"]);
+});
+
+test("should allow re-adding listeners after offContext", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.on("test", callback, widget);
+  emitter.offContext(widget);
+  emitter.on("test", callback, widget);
+  emitter.emit("test");
+
+  emitter.offContext(widget);
+  emitter.emit("test");
+
+  assert.is(calls, 1);
+});
+
+test("should not visit types the context was removed from", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  const callback = (): void => {};
+  const { getCallbacks, hasContext } = ListenerIndex.prototype;
+  const visited = new Set<ListenerIndex>();
+
+  emitter.on("first", callback, widget);
+  emitter.on("second", callback, widget);
+  emitter.off("first", callback, widget);
+  emitter.once("third", callback, widget);
+  emitter.emit("third");
+  emitter.on("fourth", callback, {});
+  emitter.on("fifth", callback);
+
+  // Record the listener index of every list offContext looks at
+  ListenerIndex.prototype.getCallbacks = function (context): Callback[] {
+    visited.add(this);
+    return getCallbacks.call(this, context);
+  };
+  ListenerIndex.prototype.hasContext = function (context): boolean {
+    visited.add(this);
+    return hasContext.call(this, context);
+  };
+  try {
+    emitter.offContext(widget);
+  } finally {
+    Object.assign(ListenerIndex.prototype, { getCallbacks, hasContext });
+  }
+
+  // Only "second" still had a listener bound to the widget
+  assert.is(visited.size, 1);
+  assert.is(emitter.emit("second"), false);
+  assert.is(emitter.emit("fourth"), true);
+});
+
+test("should handle offContext during emission", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  const calls: string[] = [];
+
+  emitter.on("test", () => {
+    calls.push("remover");
+    emitter.offContext(widget);
+  });
+  emitter.on("test", () => calls.push("widget"), widget, 1);
+
+  emitter.emit("test");
+  emitter.emit("test");
+
+  // The current emission uses its snapshot, later ones do not see the listener
+  assert.equal(calls, ["remover", "widget", "remover"]);
+});
+
+test("should ignore unknown contexts in offContext", () => {
+  const emitter = new TestEmitter();
+  let called = false;
+
+  emitter.on("test", () => {
+    called = true;
+  });
+
+  assert.not.throws(() => emitter.offContext({}));
+  emitter.emit("test");
+  assert.is(called, true);
+});
+
 test.run();
@@ -0,0 +1,322 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  DestroyPolicy,
+  Eventail,
+  type CollectedValue,
+  type EventailOptions,
+  type ParallelResult,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitCollect(
+    type: string | number,
+    ...args: unknown[]
+  ): CollectedValue[] {
+    return super.emitCollect(type, ...args);
+  }
+
+  public emitCancelable(type: string | number, ...args: unknown[]): boolean {
+    return super.emitCancelable(type, ...args);
+  }
+
+  public emitPipeline(type: string | number, ...args: unknown[]): unknown {
+    return super.emitPipeline(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+
+  public emitParallel(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<ParallelResult[]> {
+    return super.emitParallel(type, ...args);
+  }
+}
+
+// ============================================================================
+// offAll Tests
+// ============================================================================
+
+test("should remove all listeners with offAll", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.on("first", callback);
+  emitter.once("second", callback, widget);
+  emitter.onAny(callback);
+  emitter.onPattern("third.*", callback);
+  emitter.onCapture("first", callback);
+
+  emitter.offAll();
+
+  assert.is(emitter.emit("first"), false);
+  assert.is(emitter.emit("second"), false);
+  assert.is(emitter.emit("third.x"), false);
+  assert.is(calls, 0);
+  assert.is(emitter.destroyed, false);
+});
+
+test("should allow adding listeners again after offAll", () => {
+  const emitter = new TestEmitter();
+  const context = {};
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.on("test", callback, context);
+  emitter.offAll();
+  emitter.on("test", callback, context);
+  emitter.emit("test");
+
+  assert.is(calls, 1);
+});
+
+test("should detach abort signals with offAll", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const callback = (): void => {};
+
+  emitter.on("test", callback, undefined, 0, controller.signal);
+  emitter.offAll();
+  emitter.on("test", callback);
+
+  // Aborting must not remove the listener added after offAll
+  controller.abort();
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should keep calling the current snapshot after offAll", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("test", () => {
+    calls.push("first");
+    emitter.offAll();
+  });
+  emitter.on("test", () => calls.push("second"), undefined, 1);
+
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.equal(calls, ["first", "second"]);
+});
+
+// ============================================================================
+// destroy Tests
+// ============================================================================
+
+test("should remove all listeners and mark the emitter destroyed", () => {
+  const emitter = new TestEmitter();
+  let called = false;
+
+  emitter.on("test", () => {
+    called = true;
+  });
+  emitter.destroy();
+
+  assert.is(emitter.destroyed, true);
+  assert.is(emitter.emit("test"), false);
+  assert.is(called, false);
+});
+
+test("should ignore later calls by default", async () => {
+  const emitter = new TestEmitter();
+  let called = false;
+  const callback = (): void => {
+    called = true;
+  };
+
+  emitter.destroy();
+
+  emitter.on("test", callback).once("test", callback).onAny(callback);
+  emitter.subscribe("test", callback).unsubscribe();
+
+  assert.is(emitter.emit("test"), false);
+  assert.equal(emitter.emitCollect("test"), []);
+  assert.is(emitter.emitCancelable("test"), true);
+  assert.is(emitter.emitPipeline("test", 5), 5);
+  assert.is(await emitter.emitAsync("test"), false);
+  assert.equal(await emitter.emitParallel("test"), []);
+  assert.is(called, false);
+});
+
+test("should throw on later calls under DestroyPolicy.THROW", async () => {
+  const emitter = new TestEmitter({ destroyPolicy: DestroyPolicy.THROW });
+
+  emitter.destroy();
+
+  assert.throws(() => emitter.on("test", () => {}), /destroyed/);
+  assert.throws(() => emitter.onAny(() => {}), /destroyed/);
+  assert.throws(() => emitter.emit("test"), /destroyed/);
+  assert.throws(() => emitter.emitPipeline("test", 1), /destroyed/);
+
+  try {
+    await emitter.emitAsync("test");
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.match((error as Error).message, /destroyed/);
+  }
+
+  try {
+    await emitter.emitParallel("test");
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.match((error as Error).message, /destroyed/);
+  }
+
+  try {
+    await emitter.waitFor("test");
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.match((error as Error).message, /destroyed/);
+  }
+});
+
+test("should allow removing listeners and destroying again", () => {
+  const emitter = new TestEmitter({ destroyPolicy: DestroyPolicy.THROW });
+
+  emitter.destroy();
+
+  assert.not.throws(() => {
+    emitter.off("test");
+    emitter.offAll();
+    emitter.destroy();
+  });
+});
+
+test("should skip remaining listeners when destroyed during emit", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("test", () => {
+    calls.push("first");
+    emitter.destroy();
+  });
+  emitter.on("test", () => calls.push("second"), undefined, 1);
+  emitter.once("test", () => calls.push("third"), undefined, 2);
+
+  assert.is(emitter.emit("test"), true);
+  assert.equal(calls, ["first"]);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should not throw from the current emission when destroyed during emit", () => {
+  const emitter = new TestEmitter({ destroyPolicy: DestroyPolicy.THROW });
+  const calls: string[] = [];
+
+  emitter.on("test", () => {
+    calls.push("first");
+    emitter.destroy();
+  });
+  emitter.on("test", () => calls.push("second"), undefined, 1);
+
+  assert.not.throws(() => emitter.emit("test"));
+  assert.equal(calls, ["first"]);
+});
+
+test("should skip remaining listeners of pending async emissions", async () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("test", async () => {
+    calls.push("first");
+    await Promise.resolve();
+  });
+  emitter.on("test", () => calls.push("second"), undefined, 1);
+
+  const pending = emitter.emitAsync("test");
+  emitter.destroy();
+  await pending;
+
+  assert.equal(calls, ["first"]);
+});
+
+test("should settle pending waiters and streams when destroyed", async () => {
+  const emitter = new TestEmitter();
+  const stream = emitter.events("test");
+  const pending = emitter.waitFor("other");
+  const pull = stream.next();
+
+  emitter.emit("test", 1);
+  emitter.emit("test", 2);
+  emitter.destroy();
+
+  try {
+    await pending;
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.match((error as Error).message, /destroyed/);
+  }
+
+  // Buffered emissions are still delivered before the stream ends
+  assert.equal(await pull, { done: false, value: [1] });
+  assert.equal(await stream.next(), { done: false, value: [2] });
+  assert.equal(await stream.next(), { done: true, value: undefined });
+});
+
+test("should end a stream waiting for an emission when destroyed", async () => {
+  const emitter = new TestEmitter();
+  const values: unknown[] = [];
+
+  const loop = (async (): Promise<void> => {
+    for await (const [value] of emitter.events("test")) {
+      values.push(value);
+    }
+  })();
+
+  emitter.emit("test", 1);
+  await Promise.resolve();
+  emitter.destroy();
+  await loop;
+
+  assert.equal(values, [1]);
+});
+
+test("should reject waitFor and end events on a destroyed emitter", async () => {
+  const emitter = new TestEmitter();
+
+  emitter.destroy();
+
+  try {
+    await emitter.waitFor("test");
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.match((error as Error).message, /destroyed/);
+  }
+
+  assert.equal(await emitter.events("test").next(), {
+    done: true,
+    value: undefined,
+  });
+});
+
+test("should detach a destroyed emitter from its event parent", () => {
+  const parent = new TestEmitter();
+  const child = new TestEmitter().setEventParent(parent);
+
+  child.destroy();
+
+  assert.is(child.eventParent, undefined);
+});
+
+test.run();
@@ -0,0 +1,178 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  DuplicatePolicy,
+  Eventail,
+  type EventailOptions,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+}
+
+// ============================================================================
+// Duplicate Policy Tests
+// ============================================================================
+
+test("should throw for duplicate listeners by default", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.on("test", callback);
+
+  assert.throws(() => {
+    emitter.on("test", callback);
+  }, /Event listener already exists/);
+});
+
+test("should ignore duplicate listeners under DuplicatePolicy.IGNORE", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.IGNORE });
+  const context = {};
+  const calls: string[] = [];
+  const callback = (): number => calls.push("called");
+
+  emitter.on("test", callback, context);
+  emitter.on("test", callback, context, 10);
+  emitter.once("test", callback, context);
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.equal(calls, ["called", "called"]);
+
+  emitter.off("test", callback, context);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should replace duplicate listeners under DuplicatePolicy.REPLACE", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.REPLACE });
+  const calls: string[] = [];
+  const callback = (): number => calls.push("replaced");
+
+  emitter.on("test", callback, undefined, -10);
+  emitter.on("test", () => calls.push("other"));
+  emitter.once("test", callback, undefined, 10);
+
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.equal(calls, ["other", "replaced", "other"]);
+});
+
+test("should detach the abort signal of a replaced listener", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.REPLACE });
+  const controller = new AbortController();
+  const callback = (): void => {};
+
+  emitter.on("test", callback, undefined, 0, controller.signal);
+  emitter.on("test", callback);
+  controller.abort();
+
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should count duplicate listeners under DuplicatePolicy.COUNT", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.COUNT });
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.on("test", callback);
+  emitter.on("test", callback);
+  emitter.emit("test");
+  assert.is(calls, 1);
+
+  emitter.off("test", callback);
+  assert.is(emitter.emit("test"), true);
+
+  emitter.off("test", callback);
+  assert.is(emitter.emit("test"), false);
+  assert.is(calls, 2);
+});
+
+test("should release one reference per unsubscribe or abort", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.COUNT });
+  const controller = new AbortController();
+  const callback = (): void => {};
+
+  emitter.on("test", callback, undefined, 0, controller.signal);
+  const subscription = emitter.subscribe("test", callback);
+  emitter.on("test", callback);
+
+  subscription.unsubscribe();
+  controller.abort();
+  assert.is(emitter.emit("test"), true);
+
+  emitter.off("test", callback);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should remove counted listeners entirely", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.COUNT });
+  const context = {};
+  const callback = (): void => {};
+
+  emitter.on("first", callback, context);
+  emitter.on("first", callback, context);
+  emitter.once("second", callback);
+  emitter.once("second", callback);
+
+  emitter.offContext(context);
+  assert.is(emitter.emit("first"), false);
+
+  assert.is(emitter.emit("second"), true);
+  assert.is(emitter.emit("second"), false);
+
+  emitter.on("third", callback);
+  emitter.on("third", callback);
+  emitter.off("third");
+  assert.is(emitter.emit("third"), false);
+});
+
+test("should override the emitter policy per call", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const callback = (): number => calls.push("called");
+
+  emitter.on("test", callback);
+  emitter.listen("test", callback, { duplicate: DuplicatePolicy.IGNORE });
+  emitter.listen("test", callback, {
+    once: true,
+    priority: 5,
+    duplicate: DuplicatePolicy.REPLACE,
+  });
+
+  assert.throws(() => {
+    emitter.listen("test", callback, { duplicate: DuplicatePolicy.THROW });
+  }, /Event listener already exists/);
+
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.equal(calls, ["called"]);
+});
+
+test("should apply the duplicate policy to any and pattern listeners", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.IGNORE });
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.onAny(callback);
+  emitter.onAny(callback);
+  emitter.onPattern("player.*", callback);
+  emitter.onPattern("player.*", callback);
+  emitter.emit("player.died");
+
+  assert.is(calls, 2);
+});
+
+test.run();
@@ -0,0 +1,232 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  ERROR_EVENT,
+  ErrorPolicy,
+  Eventail,
+  type EventailOptions,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+
+  public emitPipeline(type: string | number, ...args: unknown[]): unknown {
+    return super.emitPipeline(type, ...args);
+  }
+}
+
+const fail = (message: string) => (): never => {
+  throw new Error(message);
+};
+
+// ============================================================================
+// Rethrow Policy Tests
+// ============================================================================
+
+test("should rethrow listener errors by default", () => {
+  const emitter = new TestEmitter();
+  let laterCalled = false;
+
+  emitter.on("test", fail("boom"));
+  emitter.on("test", () => {
+    laterCalled = true;
+  });
+
+  assert.throws(() => emitter.emit("test"), /boom/);
+  assert.is(laterCalled, false);
+});
+
+test("should remove once listeners that ran before the error", () => {
+  const emitter = new TestEmitter();
+  let onceCount = 0;
+  let throwing = true;
+
+  emitter.once("test", () => {
+    onceCount++;
+  });
+  emitter.on("test", () => {
+    if (throwing) {
+      throw new Error("boom");
+    }
+  });
+
+  assert.throws(() => emitter.emit("test"), /boom/);
+  throwing = false;
+  emitter.emit("test");
+
+  assert.is(onceCount, 1);
+});
+
+test("should remove once listeners that throw", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.once("test", () => {
+    callCount++;
+    throw new Error("boom");
+  });
+
+  assert.throws(() => emitter.emit("test"), /boom/);
+  assert.is(emitter.emit("test"), false);
+  assert.is(callCount, 1);
+});
+
+test("should release the lock after a listener throws", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  let throwing = true;
+
+  emitter.on("test", () => {
+    calls.push("first");
+    if (throwing) {
+      throw new Error("boom");
+    }
+  });
+
+  assert.throws(() => emitter.emit("test"), /boom/);
+  throwing = false;
+
+  emitter.on("test", () => calls.push("added"));
+  emitter.emit("test");
+
+  assert.equal(calls, ["first", "first", "added"]);
+});
+
+// ============================================================================
+// Aggregate Policy Tests
+// ============================================================================
+
+test("should call all listeners and throw an AggregateError", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.AGGREGATE });
+  const calls: string[] = [];
+
+  emitter.on("test", fail("first"));
+  emitter.on("test", () => calls.push("middle"));
+  emitter.on("test", fail("last"));
+
+  try {
+    emitter.emit("test");
+    assert.unreachable("should have thrown");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+    const messages = (error as AggregateError).errors.map(
+      (e) => (e as Error).message,
+    );
+    assert.equal(messages, ["first", "last"]);
+  }
+  assert.equal(calls, ["middle"]);
+});
+
+test("should not throw when no listener fails", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.AGGREGATE });
+
+  emitter.on("test", () => {});
+
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should aggregate rejections of async listeners", async () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.AGGREGATE });
+  let laterCalled = false;
+
+  emitter.on("test", async () => {
+    await Promise.resolve();
+    throw new Error("async");
+  });
+  emitter.on("test", () => {
+    laterCalled = true;
+  });
+
+  try {
+    await emitter.emitAsync("test");
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+  }
+  assert.is(laterCalled, true);
+});
+
+test("should keep the pipeline value when a step throws", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.ROUTE });
+  const errors: unknown[] = [];
+
+  emitter.on(ERROR_EVENT, (error: unknown) => errors.push(error));
+  emitter.on("damage", (damage: number) => damage * 2);
+  emitter.on("damage", fail("modifier"), undefined, 1);
+  emitter.on("damage", (damage: number) => damage + 1, undefined, 2);
+
+  assert.is(emitter.emitPipeline("damage", 5), 11);
+  assert.is(errors.length, 1);
+});
+
+// ============================================================================
+// Route Policy Tests
+// ============================================================================
+
+test("should pass errors to the configured handler", () => {
+  const routed: [unknown, string | number][] = [];
+  const emitter = new TestEmitter({
+    errorPolicy: ErrorPolicy.ROUTE,
+    onError: (error, type): void => {
+      routed.push([error, type]);
+    },
+  });
+  let laterCalled = false;
+
+  emitter.on("test", fail("boom"));
+  emitter.on("test", () => {
+    laterCalled = true;
+  });
+
+  assert.is(emitter.emit("test"), true);
+  assert.is(laterCalled, true);
+  assert.is(routed.length, 1);
+  assert.is((routed[0][0] as Error).message, "boom");
+  assert.is(routed[0][1], "test");
+});
+
+test("should emit errors as the error event without a handler", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.ROUTE });
+  const routed: unknown[] = [];
+
+  emitter.on(ERROR_EVENT, (error: unknown, type: string) => {
+    routed.push((error as Error).message, type);
+  });
+  emitter.on("test", fail("boom"));
+
+  emitter.emit("test");
+  assert.equal(routed, ["boom", "test"]);
+});
+
+test("should rethrow when there is nowhere to route the error", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.ROUTE });
+
+  emitter.on("test", fail("boom"));
+
+  assert.throws(() => emitter.emit("test"), /boom/);
+});
+
+test("should rethrow errors thrown by error listeners", () => {
+  const emitter = new TestEmitter({ errorPolicy: ErrorPolicy.ROUTE });
+
+  emitter.on(ERROR_EVENT, fail("handler"));
+  emitter.on("test", fail("boom"));
+
+  assert.throws(() => emitter.emit("test"), /handler/);
+});
+
+test.run();
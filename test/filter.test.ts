@@ -0,0 +1,219 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  ErrorPolicy,
+  Eventail,
+  type CollectedValue,
+  type EventailOptions,
+  type ParallelResult,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+
+  public emitParallel(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<ParallelResult[]> {
+    return super.emitParallel(type, ...args);
+  }
+
+  public emitCollect(
+    type: string | number,
+    ...args: unknown[]
+  ): CollectedValue[] {
+    return super.emitCollect(type, ...args);
+  }
+
+  public emitPipeline(type: string | number, ...args: unknown[]): unknown {
+    return super.emitPipeline(type, ...args);
+  }
+}
+
+const byId =
+  (id: number) =>
+  (targetId: number): boolean =>
+    targetId === id;
+
+// ============================================================================
+// Listener Filter Tests
+// ============================================================================
+
+test("should call the listener only when the filter passes", () => {
+  const emitter = new TestEmitter();
+  const received: string[] = [];
+
+  emitter.listen(
+    "damaged",
+    (id: number, amount: string) => received.push(`${id}:${amount}`),
+    {
+      filter: byId(1),
+    },
+  );
+
+  emitter.emit("damaged", 2, "ignored");
+  emitter.emit("damaged", 1, "taken");
+
+  assert.equal(received, ["1:taken"]);
+});
+
+test("should consume once listeners only when the filter passes", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.listen(
+    "damaged",
+    () => {
+      callCount++;
+    },
+    { once: true, filter: byId(1) },
+  );
+
+  emitter.emit("damaged", 2);
+  emitter.emit("damaged", 3);
+  assert.is(callCount, 0);
+  assert.is(emitter.emit("damaged", 1), true);
+  assert.is(callCount, 1);
+  assert.is(emitter.emit("damaged", 1), false);
+});
+
+test("should count only passing calls towards times", () => {
+  const emitter = new TestEmitter();
+  const received: number[] = [];
+
+  emitter.listen("tick", (value: number) => received.push(value), {
+    times: 2,
+    filter: (value: number) => value > 2,
+  });
+
+  for (let i = 0; i < 6; i++) {
+    emitter.emit("tick", i);
+  }
+
+  assert.equal(received, [3, 4]);
+});
+
+test("should call the filter with the listener context", () => {
+  const emitter = new TestEmitter();
+  const widget = {
+    id: 7,
+    hits: 0,
+    accepts(this: { id: number }, id: number): boolean {
+      return id === this.id;
+    },
+  };
+
+  emitter.listen(
+    "hit",
+    function (this: typeof widget) {
+      this.hits++;
+    },
+    { context: widget, filter: widget.accepts },
+  );
+
+  emitter.emit("hit", 1);
+  emitter.emit("hit", 7);
+
+  assert.is(widget.hits, 1);
+});
+
+test("should apply filters in async and parallel emissions", async () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.listen("load", async () => calls.push("async"), {
+    once: true,
+    filter: byId(1),
+  });
+  const parallel = (): number => calls.push("parallel");
+  emitter.listen("load", parallel, {
+    once: true,
+    filter: byId(2),
+  });
+
+  await emitter.emitAsync("load", 1);
+  const results = await emitter.emitParallel("load", 2);
+  await emitter.emitAsync("load", 1);
+
+  assert.equal(calls, ["async", "parallel"]);
+  assert.equal(results, [
+    { status: "fulfilled", value: 2, callback: parallel, priority: 0 },
+  ]);
+});
+
+test("should leave skipped listeners out of collected values", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("menu", () => "always");
+  emitter.listen("menu", () => "admin", {
+    priority: 1,
+    filter: (role: string) => role === "admin",
+  });
+
+  assert.equal(
+    emitter.emitCollect("menu", "guest").map(({ value }) => value),
+    ["always"],
+  );
+  assert.equal(
+    emitter.emitCollect("menu", "admin").map(({ value }) => value),
+    ["always", "admin"],
+  );
+});
+
+test("should evaluate pipeline filters against the current value", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("damage", (damage: number) => damage * 2);
+  emitter.listen("damage", (damage: number) => damage - 100, {
+    priority: 1,
+    filter: (damage: number) => damage >= 100,
+  });
+
+  assert.is(emitter.emitPipeline("damage", 10), 20);
+  assert.is(emitter.emitPipeline("damage", 60), 20);
+});
+
+test("should handle filter errors according to the error policy", () => {
+  const errors: unknown[] = [];
+  const emitter = new TestEmitter({
+    errorPolicy: ErrorPolicy.ROUTE,
+    onError: (error): void => {
+      errors.push(error);
+    },
+  });
+  let called = false;
+
+  emitter.listen(
+    "test",
+    () => {
+      called = true;
+    },
+    {
+      once: true,
+      filter: (): boolean => {
+        throw new Error("filter");
+      },
+    },
+  );
+
+  emitter.emit("test");
+  assert.is(called, false);
+  assert.is(errors.length, 1);
+  assert.is(emitter.emit("test"), true);
+});
+
+test.run();
@@ -279,4 +279,25 @@ test("should handle mixed operations sequence", () => {
   assert.is(index.has(callback2, context2), true);
 });
 
+test("should report and list callbacks registered with a context", () => {
+  const index = new ListenerIndex();
+  const callback1 = (): number => 1;
+  const callback2 = (): number => 2;
+  const context = { id: 1 };
+
+  assert.is(index.hasContext(context), false);
+  assert.equal(index.getCallbacks(context), []);
+
+  index.insert(callback1, context);
+  index.insert(callback2, context);
+  index.insert(callback1);
+
+  assert.is(index.hasContext(context), true);
+  assert.equal(index.getCallbacks(context), [callback1, callback2]);
+
+  index.remove(callback1, context);
+  index.remove(callback2, context);
+  assert.is(index.hasContext(context), false);
+});
+
 test.run();
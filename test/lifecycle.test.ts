@@ -0,0 +1,211 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { DuplicatePolicy, Eventail, type Callback } from "../src/Eventail.js";
+
+// Helper class recording lifecycle hook calls
+class TestEmitter extends Eventail {
+  public readonly calls: string[] = [];
+  public readonly details: [string, Callback, object | undefined, number][] =
+    [];
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  protected listenerAdded(
+    type: string | number,
+    callback: Callback,
+    context: object | undefined,
+    priority: number,
+  ): void {
+    this.calls.push(`added ${type}`);
+    this.details.push(["added", callback, context, priority]);
+  }
+
+  protected listenerRemoved(
+    type: string | number,
+    callback: Callback,
+    context: object | undefined,
+    priority: number,
+  ): void {
+    this.calls.push(`removed ${type}`);
+    this.details.push(["removed", callback, context, priority]);
+  }
+
+  protected firstListenerAdded(type: string | number): void {
+    this.calls.push(`first ${type}`);
+  }
+
+  protected lastListenerRemoved(type: string | number): void {
+    this.calls.push(`last ${type}`);
+  }
+}
+
+// ============================================================================
+// Lifecycle Hook Tests
+// ============================================================================
+
+test("should call hooks when listeners are added and removed with off", () => {
+  const emitter = new TestEmitter();
+  const context = {};
+  const first = (): void => {};
+  const second = (): void => {};
+
+  emitter.on("test", first, context, 5);
+  emitter.on("test", second);
+  emitter.off("test", first, context);
+  emitter.off("test", second);
+
+  assert.equal(emitter.calls, [
+    "added test",
+    "first test",
+    "added test",
+    "removed test",
+    "removed test",
+    "last test",
+  ]);
+  assert.equal(emitter.details[0], ["added", first, context, 5]);
+  assert.equal(emitter.details[2], ["removed", first, context, 5]);
+});
+
+test("should call hooks for every listener removed by type", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("test", () => {});
+  emitter.on("test", () => {});
+  emitter.calls.length = 0;
+  emitter.off("test");
+
+  assert.equal(emitter.calls, ["removed test", "removed test", "last test"]);
+});
+
+test("should call hooks when once-listeners are cleaned up after emit", () => {
+  const emitter = new TestEmitter();
+
+  emitter.once("test", () => {});
+  emitter.listen("test", () => {}, { times: 2 });
+  emitter.calls.length = 0;
+
+  emitter.emit("test");
+  assert.equal(emitter.calls, ["removed test"]);
+
+  emitter.emit("test");
+  assert.equal(emitter.calls, ["removed test", "removed test", "last test"]);
+});
+
+test("should call hooks when a signal aborts or a context is removed", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const context = {};
+
+  emitter.listen("first", () => {}, { signal: controller.signal });
+  emitter.on("second", () => {}, context);
+  emitter.calls.length = 0;
+
+  controller.abort();
+  emitter.offContext(context);
+
+  assert.equal(emitter.calls, [
+    "removed first",
+    "last first",
+    "removed second",
+    "last second",
+  ]);
+});
+
+test("should call hooks for every type with offAll and destroy", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("first", () => {});
+  emitter.on("second", () => {});
+  emitter.calls.length = 0;
+  emitter.offAll();
+
+  assert.equal(emitter.calls, [
+    "removed first",
+    "last first",
+    "removed second",
+    "last second",
+  ]);
+
+  emitter.on("third", () => {});
+  emitter.calls.length = 0;
+  emitter.destroy();
+
+  assert.equal(emitter.calls, ["removed third", "last third"]);
+});
+
+test("should not call hooks for catch-all, pattern and capture listeners", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.onAny(callback);
+  emitter.onPattern("player.*", callback);
+  emitter.onCapture("test", callback);
+  emitter.offAny();
+  emitter.offPattern("player.*");
+  emitter.offCapture("test");
+
+  assert.equal(emitter.calls, []);
+});
+
+test("should not report the last listener when a hook adds another", () => {
+  class RestartingEmitter extends TestEmitter {
+    private isRestarted = false;
+
+    protected listenerRemoved(type: string | number): void {
+      super.listenerRemoved(type, () => {}, undefined, 0);
+      if (!this.isRestarted) {
+        this.isRestarted = true;
+        this.on(type, () => {});
+      }
+    }
+  }
+  const emitter = new RestartingEmitter();
+  const callback = (): void => {};
+
+  emitter.on("test", callback);
+  emitter.off("test", callback);
+
+  assert.equal(emitter.calls, [
+    "added test",
+    "first test",
+    "removed test",
+    "added test",
+    "first test",
+  ]);
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should not call hooks for rejected duplicates", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.on("test", callback);
+  assert.throws(() => emitter.on("test", callback));
+
+  assert.equal(emitter.calls, ["added test", "first test"]);
+});
+
+test("should not report a replaced only listener as the last and first", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.REPLACE });
+  const callback = (): void => {};
+
+  emitter.on("test", callback);
+  emitter.on("test", callback, undefined, 5);
+
+  assert.equal(emitter.calls, [
+    "added test",
+    "first test",
+    "removed test",
+    "added test",
+  ]);
+  assert.equal(emitter.details[1], ["removed", callback, undefined, 0]);
+  assert.equal(emitter.details[2], ["added", callback, undefined, 5]);
+  assert.is(emitter.emit("test"), true);
+
+  emitter.off("test", callback);
+  assert.equal(emitter.calls.slice(4), ["removed test", "last test"]);
+});
+
+test.run();
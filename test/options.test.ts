@@ -0,0 +1,200 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+}
+
+// ============================================================================
+// Listener Options Tests
+// ============================================================================
+
+test("should accept priority without a context", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("test", () => calls.push("default"));
+  emitter.listen("test", () => calls.push("early"), { priority: -5 });
+  emitter.listen("test", () => calls.push("late"), { once: true, priority: 5 });
+
+  emitter.emit("test");
+  assert.equal(calls, ["early", "default", "late"]);
+});
+
+test("should bind the context option", () => {
+  const emitter = new TestEmitter();
+  const widget = { name: "widget" };
+  let received: unknown = null;
+
+  emitter.listen(
+    "test",
+    function (this: typeof widget) {
+      received = this;
+    },
+    { context: widget },
+  );
+
+  emitter.emit("test");
+  assert.is(received, widget);
+});
+
+test("should remove listeners registered with a context option via off()", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  const callback = (): void => {};
+
+  emitter.listen("test", callback, { context: widget, priority: 3 });
+  emitter.off("test", callback, widget);
+
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should support the once option", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.listen(
+    "test",
+    () => {
+      callCount++;
+    },
+    { once: true },
+  );
+
+  emitter.emit("test");
+  emitter.emit("test");
+  assert.is(callCount, 1);
+});
+
+test("should remove listeners after the given number of times", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.listen(
+    "test",
+    () => {
+      callCount++;
+    },
+    { times: 3, once: true },
+  );
+
+  for (let i = 0; i < 5; i++) {
+    emitter.emit("test");
+  }
+
+  assert.is(callCount, 3);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should count times across async emissions", async () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.listen(
+    "test",
+    async () => {
+      await Promise.resolve();
+      callCount++;
+    },
+    { times: 2 },
+  );
+
+  await Promise.all([
+    emitter.emitAsync("test"),
+    emitter.emitAsync("test"),
+    emitter.emitAsync("test"),
+  ]);
+  assert.is(callCount, 2);
+});
+
+test("should reject invalid times", () => {
+  const emitter = new TestEmitter();
+
+  assert.throws(
+    () => emitter.listen("test", () => {}, { times: 0 }),
+    RangeError,
+  );
+  assert.throws(
+    () => emitter.listen("test", () => {}, { times: 1.5 }),
+    RangeError,
+  );
+});
+
+test("should remove listeners through the signal option", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  let callCount = 0;
+
+  emitter.listen(
+    "test",
+    () => {
+      callCount++;
+    },
+    { signal: controller.signal, priority: 1 },
+  );
+
+  emitter.emit("test");
+  controller.abort();
+  emitter.emit("test");
+
+  assert.is(callCount, 1);
+});
+
+test("should skip calls rejected by the filter option", () => {
+  const emitter = new TestEmitter();
+  const received: number[] = [];
+
+  emitter.listen("test", (id: number) => received.push(id), {
+    filter: (id: number) => id % 2 === 0,
+  });
+
+  for (let i = 0; i < 5; i++) {
+    emitter.emit("test", i);
+  }
+  assert.equal(received, [0, 2, 4]);
+});
+
+test("should treat any object passed to on() as a context", () => {
+  const emitter = new TestEmitter();
+  const empty = {};
+  const options = { priority: 1 };
+  const received: unknown[] = [];
+
+  function callback(this: unknown): void {
+    received.push(this);
+  }
+
+  emitter.on("test", callback, empty);
+  emitter.once("test", callback, options);
+  emitter.emit("test");
+
+  assert.equal(received, [empty, options]);
+  assert.is(received[0], empty);
+  assert.is(received[1], options);
+
+  emitter.off("test", callback, empty);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should remove listeners registered without options via off()", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.listen("test", callback);
+  emitter.off("test", callback);
+
+  assert.is(emitter.emit("test"), false);
+});
+
+test.run();
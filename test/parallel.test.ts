@@ -0,0 +1,156 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  ErrorPolicy,
+  Eventail,
+  type EventailOptions,
+  type ParallelResult,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitParallel(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<ParallelResult[]> {
+    return super.emitParallel(type, ...args);
+  }
+}
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Parallel Async Emission Tests
+// ============================================================================
+
+test("should resolve an empty report when event has no listeners", async () => {
+  const emitter = new TestEmitter();
+  assert.equal(await emitter.emitParallel("test"), []);
+});
+
+test("should start all listeners before any of them finishes", async () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("test", async () => {
+    calls.push("a:start");
+    await delay(5);
+    calls.push("a:end");
+  });
+  emitter.on("test", async () => {
+    calls.push("b:start");
+    await delay(1);
+    calls.push("b:end");
+  });
+
+  await emitter.emitParallel("test");
+  assert.equal(calls, ["a:start", "b:start", "b:end", "a:end"]);
+});
+
+test("should report settled results in priority order", async () => {
+  const emitter = new TestEmitter();
+  const failure = new Error("failed");
+
+  const double = async (value: number): Promise<number> => {
+    await delay(1);
+    return value * 2;
+  };
+  const fail = async (): Promise<void> => {
+    await delay(1);
+    throw failure;
+  };
+  const increment = (value: number): number => value + 1;
+
+  emitter.on("test", double);
+  emitter.on("test", fail, undefined, -1);
+  emitter.on("test", increment, undefined, 1);
+
+  const results = await emitter.emitParallel("test", 10);
+
+  assert.equal(results, [
+    { status: "rejected", reason: failure, callback: fail, priority: -1 },
+    { status: "fulfilled", value: 20, callback: double, priority: 0 },
+    { status: "fulfilled", value: 11, callback: increment, priority: 1 },
+  ]);
+});
+
+test("should report synchronous throws and keep starting listeners", async () => {
+  const emitter = new TestEmitter();
+  const failure = new Error("sync");
+  let laterCalled = false;
+
+  const fail = (): void => {
+    throw failure;
+  };
+  const later = (): void => {
+    laterCalled = true;
+  };
+
+  emitter.on("test", fail);
+  emitter.on("test", later);
+
+  const results = await emitter.emitParallel("test");
+
+  assert.is(laterCalled, true);
+  assert.equal(results, [
+    { status: "rejected", reason: failure, callback: fail, priority: 0 },
+    { status: "fulfilled", value: undefined, callback: later, priority: 0 },
+  ]);
+});
+
+test("should remove once listeners after parallel emission", async () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.once("test", async () => {
+    await delay(1);
+    callCount++;
+  });
+  emitter.on("test", () => {});
+
+  await emitter.emitParallel("test");
+  await emitter.emitParallel("test");
+
+  assert.is(callCount, 1);
+});
+
+test("should reject instead of throwing when a catch-all listener fails", async () => {
+  const failure = new Error("any");
+  const emitter = new TestEmitter();
+  const aggregating = new TestEmitter({ errorPolicy: ErrorPolicy.AGGREGATE });
+  const fail = (): void => {
+    throw failure;
+  };
+
+  emitter.onAny(fail);
+  aggregating.onAny(fail);
+  aggregating.on("test", () => {});
+
+  const rethrown = emitter.emitParallel("test");
+  const aggregated = aggregating.emitParallel("test");
+
+  try {
+    await rethrown;
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.is(error, failure);
+  }
+
+  try {
+    await aggregated;
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.instance(error, AggregateError);
+  }
+});
+
+test.run();
@@ -0,0 +1,270 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  Eventail,
+  STOP_PROPAGATION,
+  type CollectedValue,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitConsumable(type: string | number, ...args: unknown[]): boolean {
+    return super.emitConsumable(type, ...args);
+  }
+
+  public emitCollect(
+    type: string | number,
+    ...args: unknown[]
+  ): CollectedValue[] {
+    return super.emitCollect(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+
+  public emitPipeline(type: string | number, ...args: unknown[]): unknown {
+    return super.emitPipeline(type, ...args);
+  }
+}
+
+const record = (
+  emitter: TestEmitter,
+  pattern: string | RegExp,
+  types: (string | number)[],
+): string[] => {
+  const calls: string[] = [];
+  emitter.onPattern(pattern, (type: string) => calls.push(type));
+  for (const type of types) {
+    emitter.emit(type, String(type));
+  }
+  return calls;
+};
+
+// ============================================================================
+// Pattern Subscription Tests
+// ============================================================================
+
+test("should match a single segment with *", () => {
+  const calls = record(new TestEmitter(), "player.*", [
+    "player.died",
+    "player.health.changed",
+    "player",
+    "enemy.died",
+  ]);
+
+  assert.equal(calls, ["player.died"]);
+});
+
+test("should match one or more segments with **", () => {
+  const calls = record(new TestEmitter(), "player.**", [
+    "player.died",
+    "player.health.changed",
+    "player",
+    "enemy.died",
+  ]);
+
+  assert.equal(calls, ["player.died", "player.health.changed"]);
+});
+
+test("should match wildcards in the middle of a pattern", () => {
+  const calls = record(new TestEmitter(), "*.health.**", [
+    "player.health.changed",
+    "enemy.health.max.changed",
+    "health.changed",
+    "player.mana.changed",
+  ]);
+
+  assert.equal(calls, ["player.health.changed", "enemy.health.max.changed"]);
+});
+
+test("should treat other characters in string patterns literally", () => {
+  const calls = record(new TestEmitter(), "player(1).+", [
+    "player(1).+",
+    "player1.x",
+  ]);
+
+  assert.equal(calls, ["player(1).+"]);
+});
+
+test("should match RegExp patterns against the stringified type", () => {
+  const calls = record(new TestEmitter(), /^(player|enemy)\.died$|^4\d$/g, [
+    "player.died",
+    "enemy.died",
+    42,
+    42,
+    "ally.died",
+  ]);
+
+  assert.equal(calls, ["player.died", "enemy.died", "42", "42"]);
+});
+
+test("should report events with only pattern listeners as delivered", () => {
+  const emitter = new TestEmitter();
+
+  emitter.onPattern("player.*", () => {});
+
+  assert.is(emitter.emit("player.died"), true);
+  assert.is(emitter.emit("enemy.died"), false);
+});
+
+test("should merge pattern and exact listeners by priority", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("player.died", () => calls.push("exact 0"));
+  emitter.on("player.died", () => calls.push("exact 10"), undefined, 10);
+  emitter.onPattern("player.**", () => calls.push("deep 0"));
+  emitter.onPattern("player.*", () => calls.push("shallow -5"), undefined, -5);
+  emitter.onPattern("player.*", () => calls.push("shallow 5"), undefined, 5);
+
+  emitter.emit("player.died");
+
+  assert.equal(calls, [
+    "shallow -5",
+    "exact 0",
+    "deep 0",
+    "shallow 5",
+    "exact 10",
+  ]);
+});
+
+test("should stop propagation across exact and pattern listeners", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.onPattern("ui.*", () => STOP_PROPAGATION, undefined, -10);
+  emitter.on("ui.click", () => calls.push("exact"));
+
+  assert.is(emitter.emitConsumable("ui.click"), true);
+  assert.equal(calls, []);
+});
+
+test("should support pattern listeners in other emission modes", async () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("damage.fire", (value: number) => value + 1);
+  emitter.onPattern("damage.*", (value: number) => value * 10, undefined, 1);
+
+  assert.is(emitter.emitPipeline("damage.fire", 1), 20);
+  assert.equal(emitter.emitCollect("damage.fire", 1), [
+    { value: 2, priority: 0 },
+    { value: 10, priority: 1 },
+  ]);
+  assert.is(await emitter.emitAsync("damage.ice", 1), true);
+});
+
+test("should remove once-listeners when merged with pattern listeners", () => {
+  const emitter = new TestEmitter();
+  let onceCalls = 0;
+
+  emitter.onPattern("player.*", () => {});
+  emitter.once("player.died", () => {
+    onceCalls++;
+  });
+
+  emitter.emit("player.died");
+  emitter.emit("player.died");
+
+  assert.is(onceCalls, 1);
+});
+
+test("should remove pattern listeners with offPattern", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const context = {};
+  const callback = (): number => calls.push("kept");
+
+  emitter.onPattern("player.*", callback, context);
+  emitter.onPattern("player.*", callback);
+  emitter.offPattern("player.*", callback, context);
+  emitter.emit("player.died");
+
+  emitter.offPattern("player.*");
+
+  assert.is(emitter.emit("player.died"), false);
+  assert.equal(calls, ["kept"]);
+});
+
+test("should identify RegExp patterns by instance", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.onPattern(/^player/, callback);
+  emitter.offPattern(/^player/, callback);
+  emitter.emit("player.died");
+
+  assert.is(calls, 1);
+});
+
+test("should stop matching patterns whose listeners are all removed", () => {
+  const emitter = new TestEmitter();
+  const pattern = /^player\./;
+  const context = {};
+  let matches = 0;
+  const match = pattern.test.bind(pattern);
+  pattern.test = (name: string): boolean => {
+    matches++;
+    return match(name);
+  };
+
+  emitter.onPattern(pattern, () => {}, context);
+  emitter.emit("player.died");
+  emitter.offContext(context);
+  emitter.emit("player.died");
+
+  assert.is(matches, 1);
+});
+
+test("should throw for duplicate listeners of the same pattern", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.onPattern("player.*", callback);
+  emitter.on("player.died", callback);
+
+  assert.throws(() => {
+    emitter.onPattern("player.*", callback);
+  }, /Event listener already exists/);
+});
+
+test("should not affect the current emission when patterns change", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const removed = (): number => calls.push("removed");
+  let isFirstEmission = true;
+
+  emitter.onPattern(
+    "player.*",
+    () => {
+      calls.push("first");
+      if (isFirstEmission) {
+        isFirstEmission = false;
+        emitter.offPattern("player.*", removed);
+        emitter.onPattern("player.*", () => calls.push("added"));
+      }
+    },
+    undefined,
+    -1,
+  );
+  emitter.onPattern("player.*", removed);
+
+  emitter.emit("player.died");
+  assert.equal(calls, ["first", "removed"]);
+
+  calls.length = 0;
+  emitter.emit("player.died");
+  assert.equal(calls, ["first", "added"]);
+});
+
+test.run();
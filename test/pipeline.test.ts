@@ -0,0 +1,122 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail, STOP_PROPAGATION } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emitPipeline(type: string | number, ...args: unknown[]): unknown {
+    return super.emitPipeline(type, ...args);
+  }
+
+  public emitPipelineAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<any> {
+    return super.emitPipelineAsync(type, ...args);
+  }
+}
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Pipeline Emission Tests
+// ============================================================================
+
+test("should return the initial value when event has no listeners", () => {
+  const emitter = new TestEmitter();
+  assert.is(emitter.emitPipeline("damage", 10), 10);
+});
+
+test("should thread the value through listeners in priority order", () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("damage", (damage: number) => damage - 5, undefined, 10);
+  emitter.on("damage", (damage: number) => damage * 2, undefined, -10);
+
+  assert.is(emitter.emitPipeline("damage", 10), 15);
+});
+
+test("should pass remaining arguments unchanged to every listener", () => {
+  const emitter = new TestEmitter();
+  const seen: unknown[] = [];
+
+  emitter.on("damage", (damage: number, source: string) => {
+    seen.push(source);
+    return damage + 1;
+  });
+  emitter.on("damage", (damage: number, source: string) => {
+    seen.push(source);
+    return damage + 1;
+  });
+
+  assert.is(emitter.emitPipeline("damage", 0, "fire"), 2);
+  assert.equal(seen, ["fire", "fire"]);
+});
+
+test("should return the received value when a listener stops the pipeline", () => {
+  const emitter = new TestEmitter();
+  let lastCalled = false;
+
+  emitter.on("config", (config: { debug: boolean }) => ({
+    ...config,
+    debug: true,
+  }));
+  emitter.on("config", () => STOP_PROPAGATION, undefined, 1);
+  emitter.on(
+    "config",
+    () => {
+      lastCalled = true;
+    },
+    undefined,
+    2,
+  );
+
+  assert.equal(emitter.emitPipeline("config", { debug: false }), {
+    debug: true,
+  });
+  assert.is(lastCalled, false);
+});
+
+test("should remove once listeners after pipeline emission", () => {
+  const emitter = new TestEmitter();
+
+  emitter.once("damage", (damage: number) => damage * 10);
+  emitter.on("damage", (damage: number) => damage + 1);
+
+  assert.is(emitter.emitPipeline("damage", 1), 11);
+  assert.is(emitter.emitPipeline("damage", 1), 2);
+});
+
+test("should await each listener in async pipelines", async () => {
+  const emitter = new TestEmitter();
+
+  emitter.on("load", async (config: string[]) => {
+    await delay(5);
+    return [...config, "slow"];
+  });
+  emitter.on(
+    "load",
+    (config: string[]) => [...config, "sync"],
+    undefined,
+    1,
+  );
+  emitter.once(
+    "load",
+    async (config: string[]) => {
+      await delay(1);
+      return [...config, "once"];
+    },
+    undefined,
+    2,
+  );
+
+  assert.equal(await emitter.emitPipelineAsync("load", []), [
+    "slow",
+    "sync",
+    "once",
+  ]);
+  assert.equal(await emitter.emitPipelineAsync("load", []), ["slow", "sync"]);
+});
+
+test.run();
@@ -233,4 +233,95 @@ test("should maintain priority order after listener removal", () => {
   assert.equal(executionOrder, ["first", "third"]);
 });
 
+test("should move a listener with setPriority", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const context = {};
+  const moved = (): number => calls.push("moved");
+
+  emitter.on("test", () => calls.push("first"), undefined, 1);
+  emitter.on("test", () => calls.push("second"), undefined, 2);
+  emitter.on("test", moved, context, 3);
+
+  emitter.setPriority("test", moved, context, 0);
+  emitter.emit("test");
+
+  calls.length = 0;
+  emitter.setPriority("test", moved, context, 1.5);
+  emitter.emit("test");
+
+  assert.equal(calls, ["first", "moved", "second"]);
+});
+
+test("should keep once state when changing priority", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.listen("test", callback, { times: 2, priority: 5 });
+  emitter.emit("test");
+  emitter.setPriority("test", callback, undefined, -5);
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.is(calls, 2);
+});
+
+test("should find listeners by priority range in large lists", () => {
+  const emitter = new TestEmitter();
+  const calls: number[] = [];
+  const callbacks: (() => number)[] = [];
+
+  for (let i = 0; i < 50; i++) {
+    const callback = (): number => calls.push(i);
+    callbacks.push(callback);
+    emitter.on("test", callback, undefined, i);
+  }
+
+  emitter.setPriority("test", callbacks[25], undefined, 100);
+  emitter.setPriority("test", callbacks[49], undefined, -1);
+
+  // The index follows the new priority, so the listener can still be removed
+  emitter.off("test", callbacks[25]);
+  emitter.emit("test");
+
+  assert.is(calls.length, 49);
+  assert.is(calls[0], 49);
+  assert.is(calls[48], 48);
+});
+
+test("should not reorder an emission in progress", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const last = (): number => calls.push("last");
+
+  emitter.on("test", () => {
+    calls.push("first");
+    emitter.setPriority("test", last, undefined, -1);
+  });
+  emitter.on("test", last, undefined, 1);
+
+  emitter.emit("test");
+  assert.equal(calls, ["first", "last"]);
+
+  calls.length = 0;
+  emitter.emit("test");
+  assert.equal(calls, ["last", "first"]);
+});
+
+test("should ignore unknown listeners in setPriority", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  emitter.on("test", callback, {});
+
+  assert.not.throws(() => {
+    emitter.setPriority("missing", callback, undefined, 1);
+    emitter.setPriority("test", callback, undefined, 1);
+    emitter.setPriority("test", () => {}, undefined, 1);
+  });
+});
+
 test.run();
@@ -0,0 +1,113 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail, STOP_PROPAGATION } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitConsumable(type: string | number, ...args: unknown[]): boolean {
+    return super.emitConsumable(type, ...args);
+  }
+
+  public emitAsync(type: string | number, ...args: unknown[]): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+}
+
+// ============================================================================
+// Stop Propagation Tests
+// ============================================================================
+
+test("should stop calling lower priority listeners", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("input", () => calls.push("world"), undefined, 0);
+  emitter.on(
+    "input",
+    () => {
+      calls.push("overlay");
+      return STOP_PROPAGATION;
+    },
+    undefined,
+    -10,
+  );
+
+  const result = emitter.emit("input");
+
+  assert.is(result, true);
+  assert.equal(calls, ["overlay"]);
+});
+
+test("should report whether the event was consumed", () => {
+  const emitter = new TestEmitter();
+  let blocking = true;
+
+  emitter.on("input", () => (blocking ? STOP_PROPAGATION : undefined));
+  emitter.on("input", () => {});
+
+  assert.is(emitter.emitConsumable("input"), true);
+  blocking = false;
+  assert.is(emitter.emitConsumable("input"), false);
+  assert.is(emitter.emitConsumable("nonexistent"), false);
+});
+
+test("should pass arguments to listeners of consumable events", () => {
+  const emitter = new TestEmitter();
+  const handled: string[] = [];
+
+  emitter.on("key", (key: string) => {
+    if (key === "Escape") {
+      handled.push(`menu:${key}`);
+      return STOP_PROPAGATION;
+    }
+  });
+  emitter.on("key", (key: string) => handled.push(`game:${key}`), undefined, 1);
+
+  emitter.emitConsumable("key", "Escape");
+  emitter.emitConsumable("key", "Space");
+
+  assert.equal(handled, ["menu:Escape", "game:Space"]);
+});
+
+test("should only remove once listeners that were called", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.once(
+    "input",
+    () => {
+      calls.push("first");
+      return STOP_PROPAGATION;
+    },
+    undefined,
+    -1,
+  );
+  emitter.once("input", () => calls.push("second"));
+
+  emitter.emit("input");
+  emitter.emit("input");
+  emitter.emit("input");
+
+  assert.equal(calls, ["first", "second"]);
+});
+
+test("should stop the async chain when a listener resolves to the sentinel", async () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.on("input", async () => {
+    calls.push("first");
+    await Promise.resolve();
+    return STOP_PROPAGATION;
+  });
+  emitter.on("input", () => calls.push("second"), undefined, 1);
+
+  assert.is(await emitter.emitAsync("input"), true);
+  assert.equal(calls, ["first"]);
+});
+
+test.run();
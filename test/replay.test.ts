@@ -0,0 +1,187 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail, type EventailOptions } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(
+    options: EventailOptions = { replayBuffers: [{ type: "log", size: 3 }] },
+  ) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public clearReplayBuffer(type?: string | number): void {
+    super.clearReplayBuffer(type);
+  }
+}
+
+const wait = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// Replay Buffer Tests
+// ============================================================================
+
+test("should replay buffered emissions in order before live ones", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[][] = [];
+
+  emitter.emit("log", "first", 1);
+  emitter.emit("log", "second", 2);
+  emitter.listen("log", (...args: unknown[]) => calls.push(args), {
+    replay: true,
+  });
+
+  assert.equal(calls, [
+    ["first", 1],
+    ["second", 2],
+  ]);
+
+  emitter.emit("log", "third", 3);
+  assert.equal(calls.length, 3);
+  assert.equal(calls[2], ["third", 3]);
+});
+
+test("should keep only the last emissions up to the buffer size", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[] = [];
+
+  for (let i = 1; i <= 5; i++) {
+    emitter.emit("log", i);
+  }
+  emitter.listen("log", (value: unknown) => calls.push(value), {
+    replay: true,
+  });
+
+  assert.equal(calls, [3, 4, 5]);
+});
+
+test("should drop emissions older than the maximum age", async () => {
+  const emitter = new TestEmitter({
+    replayBuffers: [{ type: "log", size: 10, maxAge: 20 }],
+  });
+  const calls: unknown[] = [];
+
+  emitter.emit("log", "old");
+  await wait(40);
+  emitter.emit("log", "new");
+  emitter.listen("log", (value: unknown) => calls.push(value), {
+    replay: true,
+  });
+
+  assert.equal(calls, ["new"]);
+});
+
+test("should only replay to listeners that opt in", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[] = [];
+
+  emitter.emit("log", "first");
+  emitter.on("log", (value: unknown) => calls.push(value));
+  emitter.subscribe("log", (value: unknown) => calls.push(value));
+
+  assert.equal(calls, []);
+});
+
+test("should stop replaying once a limited listener is used up", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[] = [];
+
+  emitter.emit("log", 1);
+  emitter.emit("log", 2);
+  emitter.emit("log", 3);
+  emitter.listen("log", (value: unknown) => calls.push(value), {
+    once: true,
+    replay: true,
+    times: 2,
+    filter: (value: number) => value > 1,
+  });
+
+  assert.equal(calls, [2, 3]);
+  assert.is(emitter.emit("log", 4), false);
+});
+
+test("should not replay emissions made during the replay", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[] = [];
+
+  emitter.emit("log", "first");
+  emitter.listen(
+    "log",
+    (value: string) => {
+      calls.push(value);
+      if (value === "first") {
+        emitter.emit("log", "echo");
+      }
+    },
+    { replay: true },
+  );
+
+  assert.equal(calls, ["first", "echo"]);
+});
+
+test("should prefer the replay buffer over the sticky value", () => {
+  const emitter = new TestEmitter({
+    stickyEvents: ["log"],
+    replayBuffers: [{ type: "log", size: 3 }],
+  });
+  const replayed: unknown[] = [];
+  const sticky: unknown[] = [];
+
+  emitter.emit("log", 1);
+  emitter.emit("log", 2);
+  emitter.listen("log", (value: unknown) => replayed.push(value), {
+    replay: true,
+  });
+  emitter.on("log", (value: unknown) => sticky.push(value));
+
+  assert.equal(replayed, [1, 2]);
+  assert.equal(sticky, [2]);
+});
+
+test("should clear replay buffers", () => {
+  const emitter = new TestEmitter({
+    replayBuffers: [
+      { type: "log", size: 3 },
+      { type: 1, size: 3 },
+    ],
+  });
+  const calls: unknown[] = [];
+  const callback = (value: unknown): number => calls.push(value);
+
+  emitter.emit("log", "log");
+  emitter.emit(1, "one");
+  emitter.clearReplayBuffer("log");
+  emitter.listen("log", callback, { replay: true });
+  emitter.listen(1, callback, { replay: true });
+  assert.equal(calls, ["one"]);
+
+  emitter.clearReplayBuffer();
+  emitter.off(1, callback);
+  emitter.listen(1, callback, { replay: true });
+  assert.equal(calls, ["one"]);
+});
+
+test("should reject invalid replay buffer options", () => {
+  assert.throws(
+    () => new TestEmitter({ replayBuffers: [{ type: "log", size: 0 }] }),
+    RangeError,
+  );
+  assert.throws(
+    () => new TestEmitter({ replayBuffers: [{ type: "log", size: 1.5 }] }),
+    RangeError,
+  );
+  assert.throws(
+    () =>
+      new TestEmitter({
+        replayBuffers: [{ type: "log", size: 1, maxAge: -1 }],
+      }),
+    RangeError,
+  );
+});
+
+test.run();
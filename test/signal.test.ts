@@ -0,0 +1,155 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail } from "../src/Eventail.js";
+
+// Helper class to access protected emit method
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+}
+
+// ============================================================================
+// AbortSignal Tests
+// ============================================================================
+
+test("should remove listener when signal is aborted", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  let callCount = 0;
+
+  emitter.on(
+    "test",
+    () => {
+      callCount++;
+    },
+    undefined,
+    0,
+    controller.signal,
+  );
+
+  emitter.emit("test");
+  controller.abort();
+  emitter.emit("test");
+
+  assert.is(callCount, 1);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should not add listener with an already aborted signal", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const callback = (): void => {};
+  controller.abort();
+
+  emitter.on("test", callback, undefined, 0, controller.signal);
+  emitter.once("test", callback, undefined, 0, controller.signal);
+
+  assert.is(emitter.emit("test"), false);
+  assert.not.throws(() => emitter.on("test", callback));
+});
+
+test("should remove only listeners bound to the aborted signal", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const calls: string[] = [];
+  const context = {};
+
+  emitter.on("test", () => calls.push("kept"));
+  emitter.on(
+    "test",
+    () => calls.push("aborted"),
+    context,
+    -1,
+    controller.signal,
+  );
+  emitter.on("other", () => calls.push("other"), context, 0, controller.signal);
+
+  controller.abort();
+  emitter.emit("test");
+  emitter.emit("other");
+
+  assert.equal(calls, ["kept"]);
+});
+
+test("should remove once listeners when aborted before emission", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  let called = false;
+
+  emitter.once(
+    "test",
+    () => {
+      called = true;
+    },
+    undefined,
+    0,
+    controller.signal,
+  );
+
+  controller.abort();
+  emitter.emit("test");
+
+  assert.is(called, false);
+});
+
+test("should not remove a re-added listener when an old signal aborts", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  let callCount = 0;
+  const callback = (): void => {
+    callCount++;
+  };
+
+  emitter.on("test", callback, undefined, 0, controller.signal);
+  emitter.off("test", callback);
+  emitter.on("test", callback);
+
+  controller.abort();
+  emitter.emit("test");
+
+  assert.is(callCount, 1);
+});
+
+test("should not remove a re-added once listener when an old signal aborts", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  let callCount = 0;
+  const callback = (): void => {
+    callCount++;
+  };
+
+  emitter.once("test", callback, undefined, 0, controller.signal);
+  emitter.emit("test");
+  emitter.on("test", callback);
+
+  controller.abort();
+  emitter.emit("test");
+
+  assert.is(callCount, 2);
+});
+
+test("should abort safely during emission", () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const calls: string[] = [];
+
+  emitter.on("test", () => {
+    calls.push("first");
+    controller.abort();
+  });
+  emitter.on(
+    "test",
+    () => calls.push("second"),
+    undefined,
+    1,
+    controller.signal,
+  );
+
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.equal(calls, ["first", "second", "first"]);
+});
+
+test.run();
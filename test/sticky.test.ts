@@ -0,0 +1,234 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  ErrorPolicy,
+  Eventail,
+  type CollectedValue,
+  type EventailOptions,
+} from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options: EventailOptions = { stickyEvents: ["ready", 1] }) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitCollect(
+    type: string | number,
+    ...args: unknown[]
+  ): CollectedValue[] {
+    return super.emitCollect(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+
+  public clearSticky(type?: string | number): void {
+    super.clearSticky(type);
+  }
+}
+
+// ============================================================================
+// Sticky Event Tests
+// ============================================================================
+
+test("should deliver the last emission to listeners added later", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[][] = [];
+
+  emitter.emit("ready", "first");
+  emitter.emit("ready", "second", 2);
+  emitter.on("ready", (...args: unknown[]) => calls.push(args));
+
+  assert.equal(calls, [["second", 2]]);
+
+  emitter.emit("ready", "third");
+  assert.equal(calls, [["second", 2], ["third"]]);
+});
+
+test("should only remember configured event types", () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[] = [];
+
+  emitter.emit("other", "value");
+  emitter.emit(1, "number");
+  emitter.on("other", (value: unknown) => calls.push(value));
+  emitter.on(1, (value: unknown) => calls.push(value));
+
+  assert.equal(calls, ["number"]);
+});
+
+test("should remember emissions of every mode", async () => {
+  const emitter = new TestEmitter();
+  const calls: unknown[] = [];
+
+  emitter.emitCollect("ready", "collect");
+  emitter.listen("ready", (value: unknown) => calls.push(value), {
+    once: true,
+  });
+
+  await emitter.emitAsync("ready", "async");
+  emitter.listen("ready", (value: unknown) => calls.push(value), {
+    once: true,
+  });
+
+  assert.equal(calls, ["collect", "async"]);
+});
+
+test("should remove once-listeners used up by the replay", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+
+  emitter.emit("ready");
+  emitter.once("ready", () => {
+    calls++;
+  });
+
+  assert.is(calls, 1);
+  assert.is(emitter.emit("ready"), false);
+});
+
+test("should apply filters and contexts to the replay", () => {
+  const emitter = new TestEmitter();
+  const context = { name: "widget" };
+  const received: unknown[] = [];
+
+  emitter.emit("ready", 5);
+  emitter.listen(
+    "ready",
+    function (this: { name: string }, value: number) {
+      received.push(this.name, value);
+    },
+    { once: true, context, filter: (value: number) => value > 10 },
+  );
+  assert.equal(received, []);
+
+  emitter.emit("ready", 20);
+  assert.equal(received, ["widget", 20]);
+});
+
+test("should replay to subscriptions", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.emit("ready");
+  emitter.subscribe("ready", () => calls.push("subscribe"));
+  emitter.subscribeOnce("ready", () => calls.push("subscribeOnce"));
+
+  assert.equal(calls, ["subscribe", "subscribeOnce"]);
+});
+
+test("should not replay to ignored duplicates", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.on("ready", callback);
+  emitter.emit("ready");
+  assert.throws(() => emitter.on("ready", callback));
+
+  assert.is(calls, 1);
+});
+
+test("should not deliver cleared sticky events", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.emit("ready");
+  emitter.emit(1);
+  emitter.clearSticky("ready");
+  emitter.on("ready", callback);
+  assert.is(calls, 0);
+
+  emitter.clearSticky();
+  emitter.on(1, callback);
+  assert.is(calls, 0);
+});
+
+test("should handle replay errors according to the error policy", () => {
+  const errors: unknown[] = [];
+  const emitter = new TestEmitter({
+    stickyEvents: ["ready"],
+    errorPolicy: ErrorPolicy.ROUTE,
+    onError: (error): void => {
+      errors.push(error);
+    },
+  });
+
+  emitter.emit("ready");
+  emitter.once("ready", () => {
+    throw new Error("failed");
+  });
+
+  assert.is(errors.length, 1);
+  assert.is(emitter.emit("ready"), false);
+
+  const rethrowing = new TestEmitter();
+  rethrowing.emit("ready");
+  assert.throws(() => {
+    rethrowing.on("ready", () => {
+      throw new Error("failed");
+    });
+  }, /failed/);
+});
+
+test("should settle waitFor with the last emission", async () => {
+  const emitter = new TestEmitter();
+
+  emitter.emit("ready", "abc");
+
+  assert.equal(await emitter.waitFor("ready"), ["abc"]);
+  assert.is(emitter.emit("ready", "def"), false);
+});
+
+test("should keep waiting when the last emission does not pass the filter", async () => {
+  const emitter = new TestEmitter();
+
+  emitter.emit("ready", 1);
+  const pending = emitter.waitFor("ready", {
+    filter: (value: number) => value > 1,
+  });
+  emitter.emit("ready", 2);
+
+  assert.equal(await pending, [2]);
+});
+
+test("should yield the last emission first from events", async () => {
+  const emitter = new TestEmitter();
+
+  emitter.emit("ready", 1);
+  const stream = emitter.events("ready");
+  emitter.emit("ready", 2);
+
+  assert.equal(await stream.next(), { done: false, value: [1] });
+  assert.equal(await stream.next(), { done: false, value: [2] });
+  await stream.return();
+});
+
+test("should forget sticky events when destroyed", () => {
+  const emitter = new TestEmitter();
+  let calls = 0;
+
+  emitter.emit("ready");
+  emitter.destroy();
+  emitter.on("ready", () => {
+    calls++;
+  });
+
+  assert.is(calls, 0);
+});
+
+test.run();
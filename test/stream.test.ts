@@ -0,0 +1,160 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail } from "../src/Eventail.js";
+import { OverflowPolicy } from "../src/EventStream.js";
+
+// Helper class to access protected emit method
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+}
+
+// ============================================================================
+// Event Stream Tests
+// ============================================================================
+
+test("should yield emissions in a for await loop", async () => {
+  const emitter = new TestEmitter();
+  const received: unknown[] = [];
+
+  const loop = (async (): Promise<void> => {
+    for await (const [health] of emitter.events("healthChanged")) {
+      received.push(health);
+      if (received.length === 3) {
+        break;
+      }
+    }
+  })();
+
+  emitter.emit("healthChanged", 100);
+  emitter.emit("healthChanged", 50);
+  await Promise.resolve();
+  emitter.emit("healthChanged", 0);
+  await loop;
+
+  assert.equal(received, [100, 50, 0]);
+});
+
+test("should remove the listener when the loop breaks", async () => {
+  const emitter = new TestEmitter();
+
+  let iterations = 0;
+  const loop = (async (): Promise<void> => {
+    for await (const args of emitter.events("test")) {
+      iterations += args.length + 1;
+      break;
+    }
+  })();
+
+  emitter.emit("test");
+  await loop;
+
+  assert.is(iterations, 1);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should buffer emissions between pulls", async () => {
+  const emitter = new TestEmitter();
+  const stream = emitter.events("test");
+
+  emitter.emit("test", 1);
+  emitter.emit("test", 2, "extra");
+
+  assert.equal(await stream.next(), { done: false, value: [1] });
+  assert.equal(await stream.next(), { done: false, value: [2, "extra"] });
+  await stream.return();
+});
+
+test("should drop the oldest emissions by default when the buffer is full", async () => {
+  const emitter = new TestEmitter();
+  const stream = emitter.events("test", { bufferSize: 2 });
+
+  for (let i = 1; i <= 4; i++) {
+    emitter.emit("test", i);
+  }
+
+  assert.equal((await stream.next()).value, [3]);
+  assert.equal((await stream.next()).value, [4]);
+  await stream.return();
+});
+
+test("should drop new emissions with DROP_NEWEST", async () => {
+  const emitter = new TestEmitter();
+  const stream = emitter.events("test", {
+    bufferSize: 2,
+    overflow: OverflowPolicy.DROP_NEWEST,
+  });
+
+  for (let i = 1; i <= 4; i++) {
+    emitter.emit("test", i);
+  }
+
+  assert.equal((await stream.next()).value, [1]);
+  assert.equal((await stream.next()).value, [2]);
+  await stream.return();
+});
+
+test("should fail after buffered emissions with THROW", async () => {
+  const emitter = new TestEmitter();
+  const stream = emitter.events("test", {
+    bufferSize: 1,
+    overflow: OverflowPolicy.THROW,
+  });
+
+  emitter.emit("test", 1);
+  emitter.emit("test", 2);
+
+  assert.is(emitter.emit("test", 3), false);
+  assert.equal((await stream.next()).value, [1]);
+  try {
+    await stream.next();
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.match((error as Error).message, /overflow/);
+  }
+  assert.equal(await stream.next(), { done: true, value: undefined });
+});
+
+test("should end the stream when the signal is aborted", async () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const received: unknown[] = [];
+
+  const loop = (async (): Promise<void> => {
+    for await (const [value] of emitter.events("test", {
+      signal: controller.signal,
+    })) {
+      received.push(value);
+    }
+  })();
+
+  emitter.emit("test", 1);
+  await Promise.resolve();
+  controller.abort();
+  await loop;
+
+  assert.equal(received, [1]);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should not register a listener with an already aborted signal", async () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  controller.abort();
+
+  const stream = emitter.events("test", { signal: controller.signal });
+
+  assert.is(emitter.emit("test"), false);
+  assert.equal(await stream.next(), { done: true, value: undefined });
+});
+
+test("should reject invalid buffer sizes", () => {
+  const emitter = new TestEmitter();
+
+  assert.throws(() => emitter.events("test", { bufferSize: -1 }), RangeError);
+  assert.throws(() => emitter.events("test", { bufferSize: 1.5 }), RangeError);
+  assert.is(emitter.emit("test"), false);
+});
+
+test.run();
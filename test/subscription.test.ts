@@ -0,0 +1,177 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import {
+  DuplicatePolicy,
+  Eventail,
+  type EventailOptions,
+} from "../src/Eventail.js";
+import { Subscription } from "../src/Subscription.js";
+
+// Helper class to access protected emit method
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+}
+
+// ============================================================================
+// Subscription Handle Tests
+// ============================================================================
+
+test("should return a subscription from subscribe()", () => {
+  const emitter = new TestEmitter();
+  const received: unknown[] = [];
+
+  const subscription = emitter.subscribe("test", (value: number) => {
+    received.push(value);
+  });
+
+  assert.instance(subscription, Subscription);
+  assert.is(subscription.isActive, true);
+
+  emitter.emit("test", 1);
+  assert.equal(received, [1]);
+});
+
+test("should remove the listener on unsubscribe()", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  const subscription = emitter.subscribe("test", () => {
+    callCount++;
+  });
+  subscription.unsubscribe();
+
+  assert.is(subscription.isActive, false);
+  assert.is(emitter.emit("test"), false);
+  assert.is(callCount, 0);
+});
+
+test("should ignore repeated unsubscribe() calls", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  const subscription = emitter.subscribe("test", callback);
+  subscription.unsubscribe();
+
+  emitter.on("test", callback);
+  subscription.unsubscribe();
+
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should remove only the subscribed callback and context pair", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+  const callback = function (this: { id: string }): void {
+    calls.push(this.id);
+  };
+  const a = { id: "a" };
+  const b = { id: "b" };
+
+  const subscription = emitter.subscribe("test", callback, a);
+  emitter.subscribe("test", callback, b, 1);
+
+  subscription.unsubscribe();
+  emitter.emit("test");
+
+  assert.equal(calls, ["b"]);
+});
+
+test("should allow subscribing again after unsubscribe()", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+  const other = (): void => {};
+
+  emitter.on("test", other);
+  emitter.subscribe("test", callback).unsubscribe();
+
+  assert.not.throws(() => emitter.subscribe("test", callback));
+});
+
+test("should remove the listener when disposed", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  const subscription = emitter.subscribe("test", () => {
+    callCount++;
+  });
+  subscription[Symbol.dispose]();
+
+  emitter.emit("test");
+  assert.is(callCount, 0);
+  assert.is(subscription.isActive, false);
+});
+
+test("should support one-time subscriptions", () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  const subscription = emitter.subscribeOnce("test", () => {
+    callCount++;
+  });
+
+  emitter.emit("test");
+  emitter.emit("test");
+  subscription.unsubscribe();
+
+  assert.is(callCount, 1);
+});
+
+test("should unsubscribe during emission without affecting the snapshot", () => {
+  const emitter = new TestEmitter();
+  const calls: string[] = [];
+
+  emitter.subscribe("test", () => {
+    calls.push("first");
+    second.unsubscribe();
+  });
+  const second = emitter.subscribe("test", () => calls.push("second"));
+
+  emitter.emit("test");
+  emitter.emit("test");
+
+  assert.equal(calls, ["first", "second", "first"]);
+});
+
+test("should not remove a listener added again after a one-time subscription fired", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  const subscription = emitter.subscribeOnce("test", callback);
+  emitter.emit("test");
+  emitter.on("test", callback);
+  subscription.unsubscribe();
+
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should not remove a listener added again after off", () => {
+  const emitter = new TestEmitter();
+  const callback = (): void => {};
+
+  const subscription = emitter.subscribe("test", callback);
+  emitter.off("test", callback);
+  emitter.on("test", callback);
+  subscription.unsubscribe();
+
+  assert.is(emitter.emit("test"), true);
+});
+
+test("should return an inactive subscription when nothing was added", () => {
+  const emitter = new TestEmitter({ duplicatePolicy: DuplicatePolicy.IGNORE });
+  const callback = (): void => {};
+
+  emitter.on("test", callback);
+  const subscription = emitter.subscribe("test", callback);
+  assert.is(subscription.isActive, false);
+
+  subscription.unsubscribe();
+  assert.is(emitter.emit("test"), true);
+});
+
+test.run();
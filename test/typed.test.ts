@@ -0,0 +1,100 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail } from "../src/Eventail.js";
+
+interface PlayerEvents {
+  healthChanged: [health: number];
+  renamed: [previous: string, next: string];
+  died: [];
+}
+
+class Player extends Eventail<PlayerEvents> {
+  public setHealth(health: number): boolean {
+    return this.emit("healthChanged", health);
+  }
+
+  public rename(previous: string, next: string): boolean {
+    return this.emit("renamed", previous, next);
+  }
+
+  public die(): boolean {
+    // @ts-expect-error -- "died" takes no arguments
+    this.emit("died", 1);
+    return this.emit("died");
+  }
+}
+
+// ============================================================================
+// Typed Event Map Tests
+// ============================================================================
+
+test("should deliver typed arguments to listeners", () => {
+  const player = new Player();
+  const received: number[] = [];
+
+  player.on("healthChanged", (health) => {
+    received.push(health);
+  });
+
+  assert.is(player.setHealth(50), true);
+  assert.is(player.setHealth(25), true);
+  assert.equal(received, [50, 25]);
+});
+
+test("should support multiple typed arguments", () => {
+  const player = new Player();
+  let result = "";
+
+  player.once("renamed", (previous, next) => {
+    result = `${previous}->${next}`;
+  });
+
+  player.rename("alice", "bob");
+  assert.is(result, "alice->bob");
+});
+
+test("should remove typed listeners with off()", () => {
+  const player = new Player();
+  let called = false;
+  const callback = (): void => {
+    called = true;
+  };
+
+  player.on("died", callback);
+  player.off("died", callback);
+
+  assert.is(player.die(), false);
+  assert.is(called, false);
+});
+
+test("should reject unknown event types and mismatched listeners", () => {
+  const player = new Player();
+
+  assert.not.throws(() => {
+    // @ts-expect-error -- "unknown" is not declared in the event map
+    player.on("unknown", () => {});
+    // @ts-expect-error -- listener parameter type does not match
+    player.on("healthChanged", (health: string) => health);
+  });
+});
+
+test("should narrow catch-all listener arguments by event type", () => {
+  const player = new Player();
+  const received: string[] = [];
+
+  player.onAny((...event) => {
+    if (event[0] === "renamed") {
+      received.push(event[2]);
+    } else if (event[0] === "healthChanged") {
+      received.push(event[1].toFixed(0));
+    }
+  });
+
+  player.setHealth(50);
+  player.rename("old", "new");
+  player.die();
+
+  assert.equal(received, ["50", "new"]);
+});
+
+test.run();
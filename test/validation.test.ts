@@ -309,4 +309,27 @@ test("should handle validation stress test", () => {
   }
 });
 
+test("should allow re-adding a listener after removing it", () => {
+  const emitter = new TestEmitter();
+  const context = {};
+  const callbacks: (() => void)[] = [];
+  for (let i = 0; i < 20; i++) {
+    callbacks.push(() => {});
+  }
+
+  // Cover removal from the front, back, middle and a priority range
+  for (let i = 0; i < callbacks.length; i++) {
+    emitter.on("test", callbacks[i], context, i);
+  }
+  for (const index of [0, 19, 10, 5]) {
+    emitter.off("test", callbacks[index], context);
+  }
+
+  assert.not.throws(() => {
+    for (const index of [0, 19, 10, 5]) {
+      emitter.on("test", callbacks[index], context, index);
+    }
+  });
+});
+
 test.run();
@@ -0,0 +1,136 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail } from "../src/Eventail.js";
+
+// Helper class to access protected emit method
+class TestEmitter extends Eventail {
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+}
+
+const delay = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============================================================================
+// waitFor Tests
+// ============================================================================
+
+test("should resolve with the emitted arguments", async () => {
+  const emitter = new TestEmitter();
+
+  const promise = emitter.waitFor("leveledUp");
+  emitter.emit("leveledUp", 2, "bonus");
+
+  assert.equal(await promise, [2, "bonus"]);
+});
+
+test("should remove the temporary listener after resolving", async () => {
+  const emitter = new TestEmitter();
+
+  const promise = emitter.waitFor("test");
+  emitter.emit("test");
+  await promise;
+
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should resolve with the first emission passing the filter", async () => {
+  const emitter = new TestEmitter();
+
+  const promise = emitter.waitFor("leveledUp", {
+    filter: (level: number) => level >= 3,
+  });
+  emitter.emit("leveledUp", 1);
+  emitter.emit("leveledUp", 2);
+  emitter.emit("leveledUp", 3);
+  emitter.emit("leveledUp", 4);
+
+  assert.equal(await promise, [3]);
+  assert.is(emitter.emit("leveledUp", 5), false);
+});
+
+test("should reject and remove the listener on timeout", async () => {
+  const emitter = new TestEmitter();
+
+  try {
+    await emitter.waitFor("test", { timeout: 5 });
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.instance(error, Error);
+    assert.match((error as Error).message, /Timed out/);
+  }
+
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should not time out after resolving", async () => {
+  const emitter = new TestEmitter();
+
+  const promise = emitter.waitFor("test", { timeout: 5 });
+  emitter.emit("test", "value");
+
+  assert.equal(await promise, ["value"]);
+  await delay(10);
+});
+
+test("should reject with the abort reason and remove the listener", async () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  const reason = new Error("cancelled");
+
+  const promise = emitter.waitFor("test", { signal: controller.signal });
+  controller.abort(reason);
+
+  try {
+    await promise;
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.is(error, reason);
+  }
+
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should reject immediately with an already aborted signal", async () => {
+  const emitter = new TestEmitter();
+  const controller = new AbortController();
+  controller.abort();
+
+  try {
+    await emitter.waitFor("test", { signal: controller.signal });
+    assert.unreachable("should have rejected");
+  } catch (error) {
+    assert.is(error, controller.signal.reason);
+  }
+
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should support several concurrent waiters", async () => {
+  const emitter = new TestEmitter();
+
+  const first = emitter.waitFor("test");
+  const second = emitter.waitFor("test");
+  emitter.emit("test", 1);
+
+  assert.equal(await Promise.all([first, second]), [[1], [1]]);
+  assert.is(emitter.emit("test"), false);
+});
+
+test("should keep other listeners when the waiter is removed", async () => {
+  const emitter = new TestEmitter();
+  let callCount = 0;
+
+  emitter.on("test", () => {
+    callCount++;
+  });
+  const promise = emitter.waitFor("test", { timeout: 1 });
+
+  await promise.catch(() => {});
+  emitter.emit("test");
+
+  assert.is(callCount, 1);
+});
+
+test.run();
@@ -0,0 +1,261 @@
+import { test } from "uvu";
+import * as assert from "uvu/assert";
+import { Eventail, type EventailOptions } from "../src/Eventail.js";
+
+// Helper class to access protected emit methods
+class TestEmitter extends Eventail {
+  constructor(options?: EventailOptions) {
+    super(options);
+  }
+
+  public emit(type: string | number, ...args: unknown[]): boolean {
+    return super.emit(type, ...args);
+  }
+
+  public emitAsync(
+    type: string | number,
+    ...args: unknown[]
+  ): Promise<boolean> {
+    return super.emitAsync(type, ...args);
+  }
+}
+
+// Garbage collection cannot be triggered reliably, so collection is simulated
+// with WeakRef and FinalizationRegistry stand-ins
+const weakRefs: FakeWeakRef[] = [];
+const registries: FakeFinalizationRegistry[] = [];
+
+class FakeWeakRef {
+  constructor(public target: object | undefined) {
+    weakRefs.push(this);
+  }
+
+  public deref(): object | undefined {
+    return this.target;
+  }
+}
+
+class FakeFinalizationRegistry {
+  public readonly entries = new Map<object, [object, unknown]>();
+
+  constructor(private readonly cleanup: (held: unknown) => void) {
+    registries.push(this);
+  }
+
+  public register(target: object, held: unknown, token: object): void {
+    this.entries.set(token, [target, held]);
+  }
+
+  public unregister(token: object): boolean {
+    return this.entries.delete(token);
+  }
+
+  public finalize(target: object): void {
+    for (const [token, [registered, held]] of this.entries) {
+      if (registered === target) {
+        this.entries.delete(token);
+        this.cleanup(held);
+      }
+    }
+  }
+}
+
+/** Simulates the collection of a context, optionally without running the registry */
+const collect = (target: object, finalize = true): void => {
+  for (const ref of weakRefs) {
+    if (ref.target === target) {
+      ref.target = undefined;
+    }
+  }
+  if (finalize) {
+    for (const registry of registries) {
+      registry.finalize(target);
+    }
+  }
+};
+
+const originalWeakRef = globalThis.WeakRef;
+const originalFinalizationRegistry = globalThis.FinalizationRegistry;
+
+test.before.each(() => {
+  weakRefs.length = 0;
+  registries.length = 0;
+  globalThis.WeakRef = FakeWeakRef as unknown as WeakRefConstructor;
+  globalThis.FinalizationRegistry =
+    FakeFinalizationRegistry as unknown as FinalizationRegistryConstructor;
+});
+
+test.after.each(() => {
+  globalThis.WeakRef = originalWeakRef;
+  globalThis.FinalizationRegistry = originalFinalizationRegistry;
+});
+
+// ============================================================================
+// Weak Listener Tests
+// ============================================================================
+
+test("should call weak listeners with their context", () => {
+  const emitter = new TestEmitter();
+  const widget = { name: "widget" };
+  let received: unknown;
+
+  emitter.listen(
+    "test",
+    function (this: unknown) {
+      received = this;
+    },
+    { context: widget, weak: true },
+  );
+  emitter.emit("test");
+
+  assert.is(received, widget);
+  assert.is(weakRefs.length, 1);
+});
+
+test("should skip weak listeners once their context is collected", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  let calls = 0;
+
+  emitter.listen(
+    "test",
+    () => {
+      calls++;
+    },
+    { context: widget, weak: true },
+  );
+  collect(widget, false);
+
+  assert.is(emitter.emit("test"), true);
+  assert.is(calls, 0);
+});
+
+test("should remove weak listeners when the registry finalizes their context", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  const calls: string[] = [];
+
+  emitter.listen("test", () => calls.push("weak"), {
+    context: widget,
+    weak: true,
+  });
+  emitter.listen("other", () => calls.push("other"), {
+    once: true,
+    context: widget,
+    weak: true,
+  });
+  emitter.listen("test", () => calls.push("strong"), { priority: 1 });
+  collect(widget);
+
+  assert.is(emitter.emit("test"), true);
+  assert.is(emitter.emit("other"), false);
+  assert.equal(calls, ["strong"]);
+});
+
+test("should skip collected listeners in pending emissions", async () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  const calls: string[] = [];
+
+  emitter.on("test", async () => {
+    calls.push("first");
+    await Promise.resolve();
+  });
+  emitter.listen("test", () => calls.push("weak"), {
+    context: widget,
+    priority: 1,
+    weak: true,
+  });
+
+  const pending = emitter.emitAsync("test");
+  collect(widget);
+  await pending;
+
+  assert.equal(calls, ["first"]);
+});
+
+test("should hold contexts weakly for the whole emitter with weakContexts", () => {
+  const emitter = new TestEmitter({ weakContexts: true });
+  const widget = {};
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.on("test", callback, widget);
+  emitter.listen("test", callback, { context: {}, weak: false });
+  emitter.on("test", callback);
+
+  assert.is(weakRefs.length, 1);
+
+  collect(widget);
+  emitter.emit("test");
+  assert.is(calls, 2);
+});
+
+test("should remove weak listeners with off and offContext", () => {
+  const emitter = new TestEmitter({ weakContexts: true });
+  const widget = {};
+  const callback = (): void => {};
+
+  emitter.on("first", callback, widget);
+  emitter.on("second", callback, widget);
+  emitter.off("first", callback, widget);
+  assert.is(emitter.emit("first"), false);
+
+  emitter.offContext(widget);
+  assert.is(emitter.emit("second"), false);
+  assert.is(registries[0].entries.size, 0);
+});
+
+test("should not match collected weak listeners without a context", () => {
+  const emitter = new TestEmitter();
+  const widget = {};
+  let calls = 0;
+  const callback = (): void => {
+    calls++;
+  };
+
+  emitter.listen("test", callback, { context: widget, weak: true });
+  emitter.listen("test", callback, { priority: 1 });
+  collect(widget, false);
+
+  emitter.off("test", callback);
+  assert.is(emitter.emit("test"), true);
+  assert.is(calls, 0);
+});
+
+test("should forget patterns whose weak listeners are collected", () => {
+  const emitter = new TestEmitter({ weakContexts: true });
+  const pattern = /^player\./;
+  const widget = {};
+  let matches = 0;
+  const match = pattern.test.bind(pattern);
+  pattern.test = (name: string): boolean => {
+    matches++;
+    return match(name);
+  };
+
+  emitter.onPattern(pattern, () => {}, widget);
+  emitter.emit("player.died");
+  collect(widget);
+  emitter.emit("player.died");
+
+  assert.is(matches, 1);
+});
+
+test("should keep listeners without a context strong", () => {
+  const emitter = new TestEmitter({ weakContexts: true });
+  let calls = 0;
+
+  emitter.on("test", () => {
+    calls++;
+  });
+  emitter.emit("test");
+
+  assert.is(calls, 1);
+  assert.is(weakRefs.length, 0);
+  assert.is(registries.length, 0);
+});
+
+test.run();